@@ -0,0 +1,551 @@
+import * as path from "path";
+import {
+  commands,
+  ConfigurationTarget,
+  Disposable,
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  Memento,
+  TextEditor,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+  window,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
+import { ExecuteCommandRequest } from "vscode-languageclient";
+import { MetalsDidFocus, ServerCommands } from "metals-languageclient";
+import { fetchBuildTargets } from "./treeview";
+import { WorkspaceClients } from "./workspace-clients";
+
+("use strict");
+
+export const ammoniteViewId = "metalsAmmonite";
+
+// The JVM options of a script that were last added to `metals.ammoniteJvmProperties`.
+const appliedScriptOptionsKey = "metals.ammoniteAppliedScriptJvmProperties";
+
+const excludedDirectories =
+  "**/{.metals,.bloop,.ammonite,target,node_modules}/**";
+
+type AmmoniteState = "stopped" | "starting" | "running";
+
+interface AmmoniteServer {
+  state: AmmoniteState;
+  // The scripts Ammonite was started for.
+  scripts: Set<string>;
+}
+
+type AmmoniteNode =
+  | { kind: "server"; folder: WorkspaceFolder }
+  | { kind: "script"; folder: WorkspaceFolder; uri: Uri }
+  | { kind: "detail"; label: string; description?: string; icon: string };
+
+/**
+ * The Ammonite build server of each workspace folder and the Ammonite
+ * scripts of the folder, with their `import $ivy` dependencies and JVM
+ * options.
+ *
+ * Ammonite runs in one process for all the imported scripts, it's started
+ * with `metals.ammoniteJvmProperties` followed by the JVM options of the
+ * script it's started for, from `metals.ammoniteScriptJvmProperties`. Metals
+ * only reads the former, so the options of the script are added to it in the
+ * workspace settings before starting Ammonite, and removed again when
+ * Ammonite is started for another script.
+ */
+export class AmmoniteView implements TreeDataProvider<AmmoniteNode> {
+  private didChange = new EventEmitter<undefined>();
+  onDidChangeTreeData: Event<undefined> = this.didChange.event;
+  private readonly servers: Map<string, AmmoniteServer> = new Map();
+  // The folders where starting Ammonite automatically failed, it's only
+  // started again on request.
+  private readonly failedAutoStarts: Set<string> = new Set();
+
+  constructor(
+    readonly clients: WorkspaceClients,
+    private readonly state: Memento
+  ) {}
+
+  refresh(): void {
+    this.didChange.fire(undefined);
+  }
+
+  remove(folder: WorkspaceFolder): void {
+    this.failedAutoStarts.delete(folder.uri.toString());
+    if (this.servers.delete(folder.uri.toString())) this.refresh();
+  }
+
+  /**
+   * Updates the state of Ammonite from the build targets of the server, the
+   * scripts are build targets while Ammonite runs. Metals can also start
+   * Ammonite itself, e.g. when it offers to import a script.
+   */
+  sync(folder: WorkspaceFolder): Thenable<void> {
+    const client = this.clients.get(folder);
+    if (!client) return Promise.resolve();
+    return fetchBuildTargets(client).then(
+      (targets) =>
+        this.updateBuildTargets(
+          folder,
+          targets.map((target) => target.label)
+        ),
+      () => undefined
+    );
+  }
+
+  // Called with the names of the build targets of `folder`, e.g. `script.sc`.
+  updateBuildTargets(folder: WorkspaceFolder, targets: string[]): void {
+    const server = this.server(folder);
+    // A start in progress updates the state once it's done.
+    if (server.state === "starting") return;
+    const names = new Set(
+      targets
+        .filter((target) => target.endsWith(".sc"))
+        .map((target) => path.basename(target))
+    );
+    if (names.size === 0) {
+      if (server.state === "stopped") return;
+      server.state = "stopped";
+      server.scripts.clear();
+      this.refresh();
+      return;
+    }
+    server.state = "running";
+    ammoniteScripts().then((scripts) => {
+      scripts
+        .filter(
+          (uri) =>
+            workspace.getWorkspaceFolder(uri) === folder &&
+            names.has(path.basename(uri.fsPath))
+        )
+        .forEach((uri) => server.scripts.add(uri.toString()));
+      this.refresh();
+    });
+  }
+
+  getTreeItem(node: AmmoniteNode): TreeItem {
+    switch (node.kind) {
+      case "server": {
+        const server = this.server(node.folder);
+        const multiRoot = (workspace.workspaceFolders ?? []).length > 1;
+        return {
+          label: multiRoot
+            ? `Ammonite (${node.folder.name})`
+            : "Ammonite build server",
+          description: server.state,
+          tooltip:
+            server.scripts.size > 0
+              ? `Started for ${Array.from(server.scripts)
+                  .map((script) => workspace.asRelativePath(script, false))
+                  .join(", ")}`
+              : undefined,
+          iconPath: new ThemeIcon(
+            server.state === "running"
+              ? "vm-running"
+              : server.state === "starting"
+              ? "sync~spin"
+              : "vm-outline"
+          ),
+          collapsibleState: TreeItemCollapsibleState.None,
+          contextValue:
+            server.state === "stopped" ? "ammoniteStopped" : "ammoniteRunning",
+        };
+      }
+      case "script": {
+        const imported = this.server(node.folder).scripts.has(
+          node.uri.toString()
+        );
+        const options = scriptJvmOptions(node.folder, node.uri);
+        return {
+          label: path.basename(node.uri.fsPath),
+          description: [imported ? "imported" : "", options.join(" ")]
+            .filter((part) => part)
+            .join(" · "),
+          tooltip: workspace.asRelativePath(node.uri, true),
+          resourceUri: node.uri,
+          iconPath: new ThemeIcon(imported ? "file-code" : "file"),
+          collapsibleState: TreeItemCollapsibleState.Collapsed,
+          contextValue: "ammoniteScript",
+          command: {
+            title: "Open script",
+            command: "vscode.open",
+            arguments: [node.uri],
+          },
+        };
+      }
+      case "detail":
+        return {
+          label: node.label,
+          description: node.description,
+          iconPath: new ThemeIcon(node.icon),
+          collapsibleState: TreeItemCollapsibleState.None,
+        };
+    }
+  }
+
+  async getChildren(node?: AmmoniteNode): Promise<AmmoniteNode[]> {
+    if (!node) {
+      const scripts = await ammoniteScripts();
+      const nodes: AmmoniteNode[] = [];
+      (workspace.workspaceFolders ?? []).forEach((folder) => {
+        if (!this.clients.get(folder)) return;
+        nodes.push({ kind: "server", folder });
+        scripts
+          .filter((uri) => workspace.getWorkspaceFolder(uri) === folder)
+          .forEach((uri) => nodes.push({ kind: "script", folder, uri }));
+      });
+      return nodes;
+    }
+    if (node.kind !== "script") return [];
+    const options = scriptJvmOptions(node.folder, node.uri);
+    const dependencies = await scriptDependencies(node.uri);
+    return ([] as AmmoniteNode[])
+      .concat(
+        options.length > 0
+          ? [
+              {
+                kind: "detail",
+                label: "JVM options",
+                description: options.join(" "),
+                icon: "settings-gear",
+              },
+            ]
+          : []
+      )
+      .concat(
+        dependencies.map<AmmoniteNode>((dependency) => ({
+          kind: "detail",
+          label: dependency,
+          icon: "package",
+        }))
+      )
+      .concat(
+        options.length === 0 && dependencies.length === 0
+          ? [{ kind: "detail", label: "No dependencies", icon: "info" }]
+          : []
+      );
+  }
+
+  /**
+   * Starts Ammonite for `script`, or for the active Ammonite script when
+   * none is given.
+   */
+  async start(
+    script?: Uri,
+    folder?: WorkspaceFolder,
+    auto = false
+  ): Promise<unknown> {
+    const uri = script ?? activeScript();
+    const client = uri
+      ? await this.clients.select(uri)
+      : folder
+      ? this.clients.get(folder)
+      : await this.clients.select();
+    const clientFolder =
+      (uri && workspace.getWorkspaceFolder(uri)) ??
+      folder ??
+      (workspace.workspaceFolders ?? []).find(
+        (candidate) => this.clients.get(candidate) === client
+      );
+    if (!client || !clientFolder) return undefined;
+    const server = this.server(clientFolder);
+    const folderKey = clientFolder.uri.toString();
+    this.failedAutoStarts.delete(folderKey);
+    server.state = "starting";
+    this.refresh();
+    await this.applyJvmOptions(
+      uri ? scriptJvmOptions(clientFolder, uri) : []
+    ).then(undefined, (error) =>
+      window.showWarningMessage(
+        `Could not add the JVM options of the script to metals.ammoniteJvmProperties: ${
+          error?.message ?? error
+        }`
+      )
+    );
+    // Metals imports the focused script.
+    if (uri) {
+      if (window.activeTextEditor?.document.uri.toString() === uri.toString()) {
+        client.sendNotification(MetalsDidFocus.type, uri.toString());
+      } else {
+        // The client notifies Metals once the script is the active editor.
+        await window.showTextDocument(uri);
+      }
+    }
+    return client
+      .sendRequest(ExecuteCommandRequest.type, {
+        command: ServerCommands.AmmoniteStart,
+      })
+      .then(
+        () => {
+          server.state = "running";
+          if (uri) server.scripts.add(uri.toString());
+          this.refresh();
+        },
+        (error) => {
+          server.state = "stopped";
+          if (auto) this.failedAutoStarts.add(folderKey);
+          this.refresh();
+          window.showErrorMessage(
+            `Could not start Ammonite: ${error?.message ?? error}`
+          );
+        }
+      );
+  }
+
+  async stop(folder?: WorkspaceFolder): Promise<unknown> {
+    const client = folder
+      ? this.clients.get(folder)
+      : await this.clients.select();
+    const clientFolder =
+      folder ??
+      (workspace.workspaceFolders ?? []).find(
+        (candidate) => this.clients.get(candidate) === client
+      );
+    if (!client || !clientFolder) return undefined;
+    return client
+      .sendRequest(ExecuteCommandRequest.type, {
+        command: ServerCommands.AmmoniteStop,
+      })
+      .then(
+        () => {
+          this.servers.delete(clientFolder.uri.toString());
+          this.refresh();
+        },
+        (error) => {
+          this.refresh();
+          window.showErrorMessage(
+            `Could not stop Ammonite: ${error?.message ?? error}`
+          );
+        }
+      );
+  }
+
+  /**
+   * Starts Ammonite for the script opened in `editor` if
+   * `metals.ammoniteAutoStart` is enabled, unless it already failed to start
+   * automatically in the folder of the script.
+   */
+  autoStart(editor: TextEditor | undefined): void {
+    const uri = editor?.document.uri;
+    if (
+      !uri ||
+      !isAmmoniteScript(uri) ||
+      !workspace.getConfiguration("metals").get<boolean>("ammoniteAutoStart")
+    ) {
+      return;
+    }
+    const folder = workspace.getWorkspaceFolder(uri);
+    if (
+      !folder ||
+      !this.clients.get(folder) ||
+      this.failedAutoStarts.has(folder.uri.toString())
+    ) {
+      return;
+    }
+    if (this.server(folder).state === "stopped") {
+      this.start(uri, undefined, true);
+    }
+  }
+
+  async setJvmOptions(script?: Uri): Promise<unknown> {
+    const uri = script ?? activeScript();
+    const folder = uri && workspace.getWorkspaceFolder(uri);
+    if (!uri || !folder) return undefined;
+    const value = await window.showInputBox({
+      prompt: `JVM options of ${path.basename(
+        uri.fsPath
+      )}, separated by spaces, used when Ammonite is started for this script`,
+      placeHolder: "-Xmx2G -Dkey=value",
+      value: scriptJvmOptions(folder, uri).join(" "),
+    });
+    if (value === undefined) return undefined;
+    const config = workspace.getConfiguration("metals", folder.uri);
+    const all = {
+      ...(config.get<Record<string, string[]>>("ammoniteScriptJvmProperties") ??
+        {}),
+    };
+    const key = relativeScriptPath(folder, uri);
+    const options = value.split(/\s+/).filter((option) => option);
+    if (options.length > 0) all[key] = options;
+    else delete all[key];
+    await config.update(
+      "ammoniteScriptJvmProperties",
+      all,
+      (workspace.workspaceFolders ?? []).length > 1
+        ? ConfigurationTarget.WorkspaceFolder
+        : ConfigurationTarget.Workspace
+    );
+    this.refresh();
+    if (this.server(folder).scripts.has(uri.toString())) {
+      const restart = "Restart Ammonite";
+      const choice = await window.showInformationMessage(
+        "The new JVM options apply the next time Ammonite is started for this script.",
+        restart
+      );
+      if (choice === restart) {
+        await this.stop(folder);
+        return this.start(uri);
+      }
+    }
+  }
+
+  /**
+   * Replaces the script options last added to `metals.ammoniteJvmProperties`
+   * with `options`, the language client sends the new settings to Metals.
+   * Options edited by the user since then are kept as they are.
+   */
+  private async applyJvmOptions(options: string[]): Promise<void> {
+    const config = workspace.getConfiguration("metals");
+    const current = config.get<string[]>("ammoniteJvmProperties") ?? [];
+    const applied = this.state.get<string[]>(appliedScriptOptionsKey, []);
+    const ownOptions =
+      applied.length > 0 &&
+      applied.length <= current.length &&
+      applied.every(
+        (option, i) => current[current.length - applied.length + i] === option
+      )
+        ? current.slice(0, current.length - applied.length)
+        : current;
+    const updated = ownOptions.concat(options);
+    if (
+      updated.length === current.length &&
+      updated.every((option, i) => current[i] === option)
+    ) {
+      return this.state.update(appliedScriptOptionsKey, options);
+    }
+    // The language client sends the settings from its own listener, which
+    // was registered before this one.
+    let listener: Disposable | undefined;
+    const sent = new Promise<void>((resolve) => {
+      listener = workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("metals.ammoniteJvmProperties")) {
+          resolve();
+        }
+      });
+      setTimeout(resolve, 2000);
+    });
+    try {
+      await config.update(
+        "ammoniteJvmProperties",
+        updated,
+        ConfigurationTarget.Workspace
+      );
+      await this.state.update(appliedScriptOptionsKey, options);
+      await sent;
+    } finally {
+      listener?.dispose();
+    }
+  }
+
+  private server(folder: WorkspaceFolder): AmmoniteServer {
+    const key = folder.uri.toString();
+    let server = this.servers.get(key);
+    if (!server) {
+      server = { state: "stopped", scripts: new Set() };
+      this.servers.set(key, server);
+    }
+    return server;
+  }
+}
+
+export function startAmmoniteView(
+  context: ExtensionContext,
+  clients: WorkspaceClients
+): AmmoniteView {
+  const view = new AmmoniteView(clients, context.workspaceState);
+  const watcher = workspace.createFileSystemWatcher("**/*.sc");
+  context.subscriptions.push(
+    window.registerTreeDataProvider(ammoniteViewId, view),
+    watcher,
+    watcher.onDidCreate(() => view.refresh()),
+    watcher.onDidDelete(() => view.refresh()),
+    watcher.onDidChange(() => view.refresh()),
+    window.onDidChangeActiveTextEditor((editor) => view.autoStart(editor)),
+    workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("metals.ammoniteScriptJvmProperties")) {
+        view.refresh();
+      }
+    }),
+    commands.registerCommand(
+      `metals.${ServerCommands.AmmoniteStart}`,
+      (node?: AmmoniteNode) =>
+        node?.kind === "script"
+          ? view.start(node.uri)
+          : view.start(
+              undefined,
+              node?.kind === "server" ? node.folder : undefined
+            )
+    ),
+    commands.registerCommand(
+      `metals.${ServerCommands.AmmoniteStop}`,
+      (node?: AmmoniteNode) =>
+        view.stop(node && node.kind !== "detail" ? node.folder : undefined)
+    ),
+    commands.registerCommand(
+      "metals.ammonite-set-jvm-options",
+      (node?: AmmoniteNode) =>
+        view.setJvmOptions(node?.kind === "script" ? node.uri : undefined)
+    ),
+    commands.registerCommand("metals.ammonite-refresh", () => view.refresh())
+  );
+  return view;
+}
+
+// Scala scripts other than worksheets and mill builds.
+export function isAmmoniteScript(uri: Uri): boolean {
+  const name = path.basename(uri.fsPath);
+  return (
+    uri.scheme === "file" &&
+    name.endsWith(".sc") &&
+    !name.endsWith(".worksheet.sc") &&
+    name !== "build.sc"
+  );
+}
+
+function ammoniteScripts(): Thenable<Uri[]> {
+  return workspace
+    .findFiles("**/*.sc", excludedDirectories)
+    .then((uris) =>
+      uris
+        .filter(isAmmoniteScript)
+        .sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+    );
+}
+
+// `import $ivy.`com.lihaoyi::scalatags:0.7.0`` and the same with `$dep`.
+async function scriptDependencies(uri: Uri): Promise<string[]> {
+  const content = Buffer.from(await workspace.fs.readFile(uri)).toString(
+    "utf8"
+  );
+  const dependencies: string[] = [];
+  content
+    .split(/\r?\n/)
+    .filter((line) => /^\s*import\s/.test(line))
+    .forEach((line) => {
+      const dependency = /\$(?:ivy|dep)\.`([^`]+)`/g;
+      let match;
+      while ((match = dependency.exec(line))) dependencies.push(match[1]);
+    });
+  return dependencies;
+}
+
+function scriptJvmOptions(folder: WorkspaceFolder, uri: Uri): string[] {
+  const all =
+    workspace
+      .getConfiguration("metals", folder.uri)
+      .get<Record<string, string[]>>("ammoniteScriptJvmProperties") ?? {};
+  return all[relativeScriptPath(folder, uri)] ?? [];
+}
+
+function relativeScriptPath(folder: WorkspaceFolder, uri: Uri): string {
+  return path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join("/");
+}
+
+function activeScript(): Uri | undefined {
+  const uri = window.activeTextEditor?.document.uri;
+  return uri && isAmmoniteScript(uri) ? uri : undefined;
+}
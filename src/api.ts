@@ -0,0 +1,129 @@
+import { Disposable, Event, WorkspaceFolder } from "vscode";
+import { ExecuteCommandRequest } from "vscode-languageclient";
+import * as scalaDebugger from "./scalaDebugger";
+import {
+  ClientCommandDefinition,
+  ClientCommandRegistry,
+} from "./client-commands";
+import { buildTargetDirectory } from "./compilation-dashboard";
+import { fetchBuildTargets, parseNodeUri } from "./treeview";
+import { WorkspaceClients } from "./workspace-clients";
+
+("use strict");
+
+// Raised when a change breaks the extensions using the API.
+export const apiVersion = 1;
+
+export interface CompilationFinishedEvent {
+  folder: WorkspaceFolder;
+}
+
+export interface ServerStartedEvent {
+  folder: WorkspaceFolder;
+}
+
+export interface BuildTargetInfo {
+  folder: WorkspaceFolder;
+  name: string;
+  // The build target identifier, e.g. `file:/project/core/?id=core`.
+  uri: string;
+  // The base directory of the build target.
+  directory: string;
+}
+
+/**
+ * What `activate` returns to the other extensions:
+ *
+ * ```ts
+ * const metals = await extensions.getExtension("scalameta.metals")?.activate();
+ * if (metals?.version === 1) metals.onDidFinishCompilation(...);
+ * ```
+ *
+ * The API is returned before the Metals servers are started, which can take
+ * a while when Metals is downloaded: `onDidStartServer` is fired once each
+ * server is ready. The methods taking an optional workspace folder use the
+ * Metals server of the active editor when it's not given, or ask the user to
+ * pick one.
+ */
+export interface MetalsApi {
+  readonly version: typeof apiVersion;
+  clientCommands: {
+    register<Args extends unknown[]>(
+      definition: ClientCommandDefinition<Args>
+    ): Disposable;
+    commands(): string[];
+  };
+  // Sends a command to the Metals server, e.g. `compile-cascade`.
+  executeServerCommand(
+    command: string,
+    args?: unknown[],
+    folder?: WorkspaceFolder
+  ): Thenable<unknown>;
+  // Fired when the Metals server of a workspace folder is ready.
+  onDidStartServer: Event<ServerStartedEvent>;
+  // Fired when a Metals server reports that a compilation finished.
+  onDidFinishCompilation: Event<CompilationFinishedEvent>;
+  buildTargets(folder?: WorkspaceFolder): Thenable<BuildTargetInfo[]>;
+  /**
+   * Starts a debug session, or a run session when `noDebug` is true, with
+   * the parameters of the `debug-adapter-start` server command, e.g.
+   * `{ mainClass, buildTarget, args }`. Resolves to false when the session
+   * couldn't be started.
+   */
+  startDebugSession(
+    parameters: object,
+    noDebug?: boolean,
+    folder?: WorkspaceFolder
+  ): Thenable<boolean>;
+}
+
+export function createApi(
+  clients: WorkspaceClients,
+  clientCommands: ClientCommandRegistry,
+  onDidStartServer: Event<ServerStartedEvent>,
+  onDidFinishCompilation: Event<CompilationFinishedEvent>
+): MetalsApi {
+  const select = (folder?: WorkspaceFolder) =>
+    clients.select(folder?.uri).then((client) => {
+      if (!client) throw new Error("No Metals server is running");
+      return client;
+    });
+  return {
+    version: apiVersion,
+    clientCommands: {
+      register: (definition) => clientCommands.register(definition),
+      commands: () => clientCommands.commands(),
+    },
+    executeServerCommand: (command, args, folder) =>
+      select(folder).then((client) =>
+        client.sendRequest(ExecuteCommandRequest.type, {
+          command,
+          arguments: args,
+        })
+      ),
+    onDidStartServer,
+    onDidFinishCompilation,
+    buildTargets: (folder) =>
+      select(folder).then((client) => {
+        const clientFolder = client.clientOptions.workspaceFolder;
+        if (!clientFolder) return [];
+        return fetchBuildTargets(client).then((nodes) =>
+          nodes.map((node) => {
+            const uri = (node.nodeUri && parseNodeUri(node.nodeUri)?.key) ?? "";
+            return {
+              folder: clientFolder,
+              name: node.label,
+              uri,
+              directory: buildTargetDirectory(clientFolder, uri),
+            };
+          })
+        );
+      }),
+    startDebugSession: (parameters, noDebug = false, folder) =>
+      select(folder).then((client) =>
+        scalaDebugger
+          .start(client, noDebug, parameters)
+          .then((wasStarted) => wasStarted === true)
+      ),
+  };
+}
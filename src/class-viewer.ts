@@ -0,0 +1,516 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFile } from "child_process";
+import {
+  commands,
+  DocumentSymbol,
+  ExtensionContext,
+  Position,
+  ProgressLocation,
+  RelativePattern,
+  SymbolKind,
+  TextDocument,
+  TextDocumentContentProvider,
+  Uri,
+  window,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
+import { getJavaConfig, JavaConfig } from "metals-languageclient";
+import { LanguageClient } from "vscode-languageclient";
+import { listJarEntries, readJarEntry } from "./jar-files";
+import { parseJarUri } from "./jar-sources";
+import {
+  fetchPackagesChildren,
+  findLibraryJar,
+  parseNodeUri,
+  toplevelSymbolOf,
+} from "./treeview";
+import { WorkspaceClients } from "./workspace-clients";
+
+("use strict");
+
+export const classViewerScheme = "metals-class";
+
+type ClassView = "javap" | "cfr" | "tasty";
+
+const cfrDependency = "org.benf:cfr:0.151";
+// The Scala 3 compiler used when the workspace has no Scala 3 library.
+const defaultScala3Version = "3.0.0";
+
+// The extensions of the documents, which pick their language.
+const extensions: Record<ClassView, string> = {
+  javap: ".javap",
+  cfr: ".java",
+  tasty: ".tasty",
+};
+
+/**
+ * A class file in a jar or in a directory of class files, e.g.
+ * `com/example/Foo$.class` in `/project/.bloop/core/classes`.
+ */
+interface ClassFile {
+  container: string;
+  entry: string;
+}
+
+// The query of the URIs of the documents.
+interface ClassViewQuery extends ClassFile {
+  view: ClassView;
+  // The version of the Scala 3 compiler printing the TASTy.
+  scalaVersion?: string;
+  // The workspace folder of the server the class was picked from.
+  workspaceRoot?: string;
+}
+
+/**
+ * Shows the bytecode, the decompiled Java or the TASTy of a class in
+ * read-only documents of the `metals-class` scheme. The documents are
+ * rendered again by the JDK's `javap`, CFR or the Scala 3 compiler every
+ * time they're opened, CFR and the compiler are downloaded with Coursier.
+ */
+class ClassViewer implements TextDocumentContentProvider {
+  private readonly classpaths: Map<string, Promise<string>> = new Map();
+
+  constructor(
+    readonly context: ExtensionContext,
+    readonly javaHome: () => string | undefined
+  ) {}
+
+  show(
+    view: ClassView,
+    classFile: ClassFile,
+    workspaceRoot: string | undefined,
+    scalaVersion?: string
+  ): Thenable<unknown> {
+    const query: ClassViewQuery = {
+      view,
+      ...classFile,
+      scalaVersion,
+      workspaceRoot,
+    };
+    const uri = Uri.from({
+      scheme: classViewerScheme,
+      path: "/" + classFile.entry.replace(/\.class$/, extensions[view]),
+      query: JSON.stringify(query),
+    });
+    return workspace
+      .openTextDocument(uri)
+      .then((document) => window.showTextDocument(document, { preview: true }));
+  }
+
+  provideTextDocumentContent(uri: Uri): Promise<string> {
+    let query: ClassViewQuery;
+    try {
+      query = JSON.parse(uri.query);
+    } catch (error) {
+      return Promise.resolve(`Failed to show ${uri.path}:\n\n${error}`);
+    }
+    const { view, container, entry, scalaVersion, workspaceRoot } = query;
+    const classFile: ClassFile = { container, entry };
+    return this.render(view, classFile, workspaceRoot, scalaVersion).catch(
+      (error) => `Failed to show ${entry} of ${container}:\n\n${error}`
+    );
+  }
+
+  private render(
+    view: ClassView,
+    classFile: ClassFile,
+    workspaceRoot: string | undefined,
+    scalaVersion = defaultScala3Version
+  ): Promise<string> {
+    const config = this.javaConfig(workspaceRoot);
+    if (!config) return Promise.reject("Metals isn't started yet");
+    switch (view) {
+      case "javap":
+        return withFile(classFile, (file) =>
+          run(path.join(path.dirname(config.javaPath), "javap"), [
+            "-v",
+            "-p",
+            file,
+          ])
+        );
+      case "cfr":
+        return this.classpath(config, cfrDependency).then((classpath) =>
+          withFile(classFile, (file) =>
+            run(config.javaPath, [
+              "-cp",
+              classpath,
+              "org.benf.cfr.reader.Main",
+              file,
+            ])
+          )
+        );
+      case "tasty":
+        return this.classpath(
+          config,
+          `org.scala-lang:scala3-compiler_3:${scalaVersion}`
+        ).then((classpath) =>
+          findTastyFile(classFile).then((tastyFile) =>
+            withFile(tastyFile, (file) =>
+              run(config.javaPath, [
+                "-cp",
+                classpath,
+                "dotty.tools.dotc.Main",
+                "-print-tasty",
+                "-color:never",
+                file,
+              ])
+            )
+          )
+        );
+    }
+  }
+
+  private javaConfig(
+    workspaceRoot: string | undefined
+  ): JavaConfig | undefined {
+    const javaHome = this.javaHome();
+    if (!javaHome) return undefined;
+    return getJavaConfig({
+      workspaceRoot,
+      javaHome,
+      customRepositories: workspace
+        .getConfiguration("metals")
+        .get<string[]>("customRepositories"),
+      extensionPath: this.context.extensionPath,
+    });
+  }
+
+  private classpath(config: JavaConfig, dependency: string): Promise<string> {
+    let classpath = this.classpaths.get(dependency);
+    if (!classpath) {
+      classpath = window.withProgress(
+        {
+          location: ProgressLocation.Notification,
+          title: `Downloading ${dependency}`,
+        },
+        () =>
+          run(
+            config.javaPath,
+            config.javaOptions.concat(
+              "-jar",
+              config.coursierPath,
+              "fetch",
+              "-p",
+              dependency
+            ),
+            config.extraEnv
+          ).then((stdout) => stdout.trim())
+      ) as Promise<string>;
+      // Retry the download the next time when it failed.
+      classpath.catch(() => this.classpaths.delete(dependency));
+      this.classpaths.set(dependency, classpath);
+    }
+    return classpath;
+  }
+}
+
+export function startClassViewer(
+  context: ExtensionContext,
+  clients: WorkspaceClients,
+  javaHome: () => string | undefined
+): void {
+  const viewer = new ClassViewer(context, javaHome);
+  context.subscriptions.push(
+    workspace.registerTextDocumentContentProvider(classViewerScheme, viewer)
+  );
+  const views: [string, ClassView][] = [
+    ["metals.show-javap", "javap"],
+    ["metals.show-cfr", "cfr"],
+    ["metals.show-tasty", "tasty"],
+  ];
+  views.forEach(([command, view]) =>
+    context.subscriptions.push(
+      commands.registerCommand(command, (nodeUri?: string) =>
+        clients.select().then((client) =>
+          (client
+            ? nodeUri
+              ? classFileOfNode(client, nodeUri)
+              : classFileOfEditor(client)
+            : Promise.resolve(undefined)
+          ).then((classFile) => {
+            if (!client || !classFile) {
+              return window.showWarningMessage(
+                "No class file found, make sure the class is compiled"
+              );
+            }
+            const scalaVersion: Thenable<string | undefined> =
+              view === "tasty"
+                ? scala3Version(client)
+                : Promise.resolve(undefined);
+            return scalaVersion.then((version) =>
+              viewer.show(
+                view,
+                classFile,
+                client.clientOptions.workspaceFolder?.uri.fsPath,
+                version
+              )
+            );
+          })
+        )
+      )
+    )
+  );
+}
+
+/**
+ * TASTy files can only be read by a compiler at least as recent as the one
+ * that wrote them: the `metals.tastyScalaVersion` setting, or the latest
+ * Scala 3 library among the libraries of the build targets.
+ */
+function scala3Version(client: LanguageClient): Thenable<string> {
+  const configured = workspace
+    .getConfiguration("metals")
+    .get<string>("tastyScalaVersion")
+    ?.trim();
+  if (configured) return Promise.resolve(configured);
+  return fetchPackagesChildren(client, "libraries:").then(
+    (jars) =>
+      jars
+        .map((jar) => (jar.nodeUri && parseNodeUri(jar.nodeUri)?.key) ?? "")
+        .map((key) => /scala3-library_3-([^/]+)\.jar$/.exec(key)?.[1])
+        .filter((version): version is string => version !== undefined)
+        .sort(compareVersions)
+        .pop() ?? defaultScala3Version,
+    () => defaultScala3Version
+  );
+}
+
+// `3.0.2` comes before `3.1.0`.
+function compareVersions(a: string, b: string): number {
+  const as = a.split(/[.-]/);
+  const bs = b.split(/[.-]/);
+  for (let i = 0; i < Math.min(as.length, bs.length); i++) {
+    const compared =
+      /^\d+$/.test(as[i]) && /^\d+$/.test(bs[i])
+        ? Number(as[i]) - Number(bs[i])
+        : as[i].localeCompare(bs[i]);
+    if (compared !== 0) return compared;
+  }
+  return as.length - bs.length;
+}
+
+// The class file of a class or method node of the Packages view.
+function classFileOfNode(
+  client: LanguageClient,
+  nodeUri: string
+): Thenable<ClassFile | undefined> {
+  const parsed = parseNodeUri(nodeUri);
+  const toplevel = parsed && toplevelSymbolOf(parsed.symbol);
+  const folder = client.clientOptions.workspaceFolder;
+  if (!parsed || !toplevel || !folder) return Promise.resolve(undefined);
+  // Objects are compiled to `Foo$.class`.
+  const entry =
+    toplevel
+      .replace(/^(_empty_|_root_)\//, "")
+      .replace(/#$/, "")
+      .replace(/\.$/, "$") + ".class";
+  return parsed.scheme === "libraries"
+    ? Promise.resolve({ container: Uri.parse(parsed.key).fsPath, entry })
+    : findClassFile(folder, entry);
+}
+
+/**
+ * The class file of the innermost class, trait or object around the cursor,
+ * either compiled from the workspace or in the jar of the library whose
+ * sources Metals extracted to `.metals/readonly`.
+ */
+function classFileOfEditor(
+  client: LanguageClient
+): Thenable<ClassFile | undefined> {
+  const editor = window.activeTextEditor;
+  const folder = client.clientOptions.workspaceFolder;
+  if (!editor || !folder) return Promise.resolve(undefined);
+  const document = editor.document;
+  return commands
+    .executeCommand<DocumentSymbol[]>(
+      "vscode.executeDocumentSymbolProvider",
+      document.uri
+    )
+    .then((symbols) => {
+      // Metals doesn't know the sources opened from jars, the class is
+      // assumed to be named after the file.
+      const name =
+        binaryName(symbols ?? [], editor.selection.active) ??
+        path.basename(document.uri.path).replace(/\.[^.]*$/, "");
+      const entry =
+        packagePrefix(document).replace(/\./g, "/") + name + ".class";
+      const sourcesJar = sourcesJarOf(document.uri);
+      return sourcesJar
+        ? findLibraryJar(
+            client,
+            sourcesJar.replace(/-sources\.jar$/, ".jar")
+          ).then((jar) => (jar ? { container: jar, entry } : undefined))
+        : findClassFile(folder, entry);
+    });
+}
+
+// The name of the sources jar of a library source, opened from the jar or
+// from its copy in `.metals/readonly`.
+function sourcesJarOf(uri: Uri): string | undefined {
+  const jarEntry = parseJarUri(uri);
+  if (jarEntry) return path.basename(jarEntry.jar);
+  return /[\\/]\.metals[\\/]readonly[\\/]dependencies[\\/]([^\\/]+\.jar)[\\/]/.exec(
+    uri.fsPath
+  )?.[1];
+}
+
+const classKinds = [
+  SymbolKind.Class,
+  SymbolKind.Interface,
+  SymbolKind.Module,
+  SymbolKind.Object,
+  SymbolKind.Enum,
+  SymbolKind.Struct,
+];
+
+// `object Foo { class Bar }` is `Foo$Bar` and `object Foo` is `Foo$`.
+function binaryName(
+  symbols: DocumentSymbol[],
+  position: Position
+): string | undefined {
+  const names: string[] = [];
+  let isObject = false;
+  let children = symbols;
+  for (;;) {
+    const enclosing = children.find(
+      (symbol) =>
+        symbol.range.contains(position) &&
+        (classKinds.includes(symbol.kind) || symbol.kind === SymbolKind.Package)
+    );
+    if (!enclosing) break;
+    if (enclosing.kind !== SymbolKind.Package) {
+      names.push(enclosing.name);
+      isObject =
+        enclosing.kind === SymbolKind.Module ||
+        enclosing.kind === SymbolKind.Object;
+    }
+    children = enclosing.children;
+  }
+  if (names.length === 0) return undefined;
+  return names.join("$") + (isObject ? "$" : "");
+}
+
+// `package com.example` clauses, e.g. `com.example.`.
+function packagePrefix(document: TextDocument): string {
+  const packages: string[] = [];
+  const clause = /^\s*package\s+(?!object\b)([\w.]+)/gm;
+  let match;
+  while ((match = clause.exec(document.getText()))) packages.push(match[1]);
+  return packages.map((name) => name + ".").join("");
+}
+
+// Picks the most recently compiled class file when there are several.
+function findClassFile(
+  folder: WorkspaceFolder,
+  entry: string
+): Thenable<ClassFile | undefined> {
+  return workspace
+    .findFiles(new RelativePattern(folder, `**/${entry}`), "**/node_modules/**")
+    .then((files) =>
+      Promise.all(
+        files.map((file) =>
+          fs.promises.stat(file.fsPath).then((stat) => ({ file, stat }))
+        )
+      )
+    )
+    .then((found) => {
+      const newest = found.sort((a, b) => b.stat.mtimeMs - a.stat.mtimeMs)[0];
+      if (!newest) return undefined;
+      const file = newest.file.fsPath;
+      return {
+        container: file.substring(0, file.length - entry.length - 1),
+        entry,
+      };
+    });
+}
+
+/**
+ * `com/example/Foo$Bar.class` is defined in `com/example/Foo.tasty`, unless
+ * a top-level class is named `Foo$Bar`: the longest name with a TASTy file
+ * is picked, from the class name cut at each `$`.
+ */
+function findTastyFile(classFile: ClassFile): Promise<ClassFile> {
+  const base = classFile.entry.replace(/\.class$/, "").replace(/\$+$/, "");
+  const directory = base.substring(0, base.lastIndexOf("/") + 1);
+  const name = base.substring(directory.length);
+  const candidates: string[] = [];
+  for (let end = name.length; end > 0; end = name.lastIndexOf("$", end - 1)) {
+    candidates.push(`${directory}${name.substring(0, end)}.tasty`);
+  }
+  const exists: Promise<
+    (entry: string) => Promise<boolean>
+  > = classFile.container.endsWith(".jar")
+    ? listJarEntries(classFile.container).then((entries) => {
+        const names = new Set(entries);
+        return (entry: string) => Promise.resolve(names.has(entry));
+      })
+    : Promise.resolve((entry: string) =>
+        fs.promises.access(path.join(classFile.container, entry)).then(
+          () => true,
+          () => false
+        )
+      );
+  return exists
+    .then((exists) =>
+      candidates.reduce<Promise<string | undefined>>(
+        (found, candidate) =>
+          found.then((result) =>
+            result
+              ? result
+              : exists(candidate).then((ok) => (ok ? candidate : undefined))
+          ),
+        Promise.resolve(undefined)
+      )
+    )
+    .then((entry) => ({
+      ...classFile,
+      entry: entry ?? candidates[candidates.length - 1] ?? `${base}.tasty`,
+    }));
+}
+
+// Runs `use` with the path of the file, extracted from its jar if needed.
+function withFile(
+  classFile: ClassFile,
+  use: (file: string) => Promise<string>
+): Promise<string> {
+  if (!classFile.container.endsWith(".jar")) {
+    return use(path.join(classFile.container, classFile.entry));
+  }
+  return readJarEntry(classFile.container, classFile.entry).then((bytes) => {
+    if (!bytes) {
+      throw new Error(`${classFile.entry} not found in ${classFile.container}`);
+    }
+    return fs.promises
+      .mkdtemp(path.join(os.tmpdir(), "metals-class-"))
+      .then((directory) => {
+        const file = path.join(directory, path.basename(classFile.entry));
+        return fs.promises
+          .writeFile(file, bytes)
+          .then(() => use(file))
+          .finally(() =>
+            fs.promises
+              .rm(directory, { recursive: true, force: true })
+              .catch(() => {})
+          );
+      });
+  });
+}
+
+function run(
+  command: string,
+  args: string[],
+  env: Record<string, string | undefined> = {}
+): Promise<string> {
+  return new Promise((resolve, reject) =>
+    execFile(
+      command,
+      args,
+      { env: { ...process.env, ...env }, maxBuffer: 64 * 1024 * 1024 },
+      (error, stdout, stderr) =>
+        error ? reject(stderr.trim() || error.message) : resolve(stdout)
+    )
+  );
+}
@@ -0,0 +1,149 @@
+import { Disposable, OutputChannel, WorkspaceFolder } from "vscode";
+import { ExecuteCommandParams, LanguageClient } from "vscode-languageclient";
+
+("use strict");
+
+export type ClientCommandArgumentType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "object"
+  | "array"
+  | "any";
+
+export interface ClientCommandArgument {
+  name: string;
+  type: ClientCommandArgumentType;
+  optional?: boolean;
+  // Further checks of the value, once its type is validated.
+  validate?: (value: unknown) => boolean;
+}
+
+// The server that sent a client command.
+export interface ClientCommandContext {
+  folder: WorkspaceFolder;
+  client: LanguageClient;
+}
+
+/**
+ * A handler of the `metals/executeClientCommand` notifications for a command.
+ *
+ * The handler is only called when the arguments sent by the server match
+ * the declared ones, several handlers may be registered for a command.
+ */
+export interface ClientCommandDefinition<Args extends unknown[] = unknown[]> {
+  command: string;
+  arguments: ClientCommandArgument[];
+  // The arguments are typed as declared, e.g. `([uri]: [string]) => ...`.
+  handler(args: Args, context: ClientCommandContext): unknown;
+  // Only handle the commands of the server of this folder.
+  folder?: WorkspaceFolder;
+}
+
+/**
+ * The handlers of the client commands sent by the Metals servers, registered
+ * by this extension and by other extensions through its API.
+ */
+export class ClientCommandRegistry {
+  private readonly definitions: Map<
+    string,
+    ClientCommandDefinition[]
+  > = new Map();
+
+  constructor(readonly outputChannel: OutputChannel) {}
+
+  register<Args extends unknown[]>(
+    definition: ClientCommandDefinition<Args>
+  ): Disposable {
+    const definitions = this.definitions.get(definition.command) ?? [];
+    this.definitions.set(definition.command, definitions.concat(definition));
+    return new Disposable(() => {
+      const remaining = (this.definitions.get(definition.command) ?? []).filter(
+        (registered) => registered !== definition
+      );
+      if (remaining.length > 0) {
+        this.definitions.set(definition.command, remaining);
+      } else {
+        this.definitions.delete(definition.command);
+      }
+    });
+  }
+
+  // The commands that have at least one handler.
+  commands(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  execute(params: ExecuteCommandParams, context: ClientCommandContext): void {
+    const definitions = (this.definitions.get(params.command) ?? []).filter(
+      (definition) =>
+        !definition.folder ||
+        definition.folder.uri.toString() === context.folder.uri.toString()
+    );
+    if (definitions.length === 0) {
+      this.outputChannel.appendLine(`unknown command: ${params.command}`);
+      return;
+    }
+    const args = params.arguments ?? [];
+    definitions.forEach((definition) => {
+      const error = validateArguments(definition.arguments, args);
+      if (error) {
+        this.outputChannel.appendLine(
+          `Ignoring invalid client command ${params.command}: ${error}`
+        );
+        return;
+      }
+      try {
+        Promise.resolve(definition.handler(args, context)).catch((error) =>
+          this.outputChannel.appendLine(
+            `Client command ${params.command} failed: ${error}`
+          )
+        );
+      } catch (error) {
+        this.outputChannel.appendLine(
+          `Client command ${params.command} failed: ${error}`
+        );
+      }
+    });
+  }
+}
+
+// A description of the first invalid argument, if any.
+function validateArguments(
+  declared: ClientCommandArgument[],
+  args: unknown[]
+): string | undefined {
+  for (let i = 0; i < declared.length; i++) {
+    const argument = declared[i];
+    const value = args[i];
+    if (value === undefined || value === null) {
+      if (argument.optional) continue;
+      return `missing argument '${argument.name}'`;
+    }
+    if (!hasType(value, argument.type)) {
+      return `argument '${argument.name}' should be of type ${argument.type}`;
+    }
+    if (argument.validate && !argument.validate(value)) {
+      return `invalid argument '${argument.name}': ${JSON.stringify(value)}`;
+    }
+  }
+  return undefined;
+}
+
+// Narrows the arguments of type `object` in the validations.
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasType(value: unknown, type: ClientCommandArgumentType): boolean {
+  switch (type) {
+    case "any":
+      return true;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isRecord(value);
+    default:
+      return typeof value === type;
+  }
+}
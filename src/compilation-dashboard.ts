@@ -0,0 +1,581 @@
+import * as path from "path";
+import {
+  commands,
+  DiagnosticSeverity,
+  env,
+  ExtensionContext,
+  languages,
+  Uri,
+  ViewColumn,
+  WebviewPanel,
+  window,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
+import { MetalsTreeViewNode } from "metals-languageclient";
+import { LanguageClient } from "vscode-languageclient";
+import {
+  fetchBuildTargets,
+  fetchToplevels,
+  locateSymbol,
+  parseNodeUri,
+} from "./treeview";
+import { WorkspaceClients } from "./workspace-clients";
+
+("use strict");
+
+export interface CompilationRecord {
+  folder: string;
+  target: string;
+  targetName: string;
+  start: number;
+  end: number;
+  // Unknown when the server didn't report the compilation and its errors
+  // couldn't be counted.
+  success?: boolean;
+  errors?: number;
+}
+
+interface OngoingCompilation {
+  folder: WorkspaceFolder;
+  target: string;
+  targetName: string;
+  start: number;
+}
+
+// The result of a compilation reported by the server in its status.
+interface CompileReport {
+  success: boolean;
+  durationMillis: number;
+  received: number;
+}
+
+type DashboardMessage =
+  | { command: "problems"; folder: string; target: string }
+  | { command: "clear" };
+
+const historyKey = "metals.compilationHistory";
+const maxRecords = 1000;
+// Diagnostics are published shortly after the compilation ends.
+const diagnosticsDelayMillis = 1000;
+// Build targets without known sources are looked up again after this delay.
+const unknownSourcesRetryMillis = 60 * 1000;
+
+/**
+ * Records the compilations of the "Ongoing compilations" view, with their
+ * duration and the number of errors they reported, and shows their history
+ * by build target.
+ *
+ * The result and duration come from the compile report of the server, which
+ * it shows in its status, e.g. `$(alert)Compiled core (1.23s)`. Compilations
+ * that didn't change anything aren't reported, their duration is only as
+ * precise as the updates of the "Ongoing compilations" view and they failed
+ * if errors are found in their source directories.
+ */
+export class CompilationDashboard {
+  private readonly ongoing: Map<string, OngoingCompilation> = new Map();
+  // The source directories of each build target, by folder and target.
+  private readonly sources: Map<
+    string,
+    { directories: Thenable<string[]>; expires: number }
+  > = new Map();
+  // The last compile report of each build target, by folder and target name.
+  private readonly reports: Map<string, CompileReport> = new Map();
+  private records: CompilationRecord[];
+  private panel: WebviewPanel | undefined;
+
+  constructor(
+    readonly context: ExtensionContext,
+    readonly clients: WorkspaceClients
+  ) {
+    this.records = context.workspaceState.get<CompilationRecord[]>(
+      historyKey,
+      []
+    );
+  }
+
+  /**
+   * Called with the nodes of the "Ongoing compilations" view of `folder`,
+   * one per build target being compiled, e.g. `core - 45%`.
+   */
+  observe(folder: WorkspaceFolder, nodes: MetalsTreeViewNode[]): void {
+    const now = Date.now();
+    const prefix = `${folder.uri.toString()} `;
+    const current: Set<string> = new Set();
+    nodes.forEach((node) => {
+      if (!node.nodeUri) return;
+      const key = prefix + node.nodeUri;
+      current.add(key);
+      if (!this.ongoing.has(key)) {
+        this.ongoing.set(key, {
+          folder,
+          target: node.nodeUri,
+          targetName: targetName(node),
+          start: now,
+        });
+      }
+    });
+    let changed = false;
+    this.ongoing.forEach((compilation, key) => {
+      if (!key.startsWith(prefix) || current.has(key)) return;
+      this.ongoing.delete(key);
+      changed = true;
+      setTimeout(() => this.finish(compilation, now), diagnosticsDelayMillis);
+    });
+    if (changed || current.size > 0) this.render();
+  }
+
+  // Called with the text of each `metals/status` notification of `folder`.
+  onStatus(folder: WorkspaceFolder, text: string): void {
+    const report = compileReport(text);
+    if (!report) return;
+    this.reports.set(`${folder.uri.toString()} ${report.targetName}`, {
+      success: report.success,
+      durationMillis: report.durationMillis,
+      received: Date.now(),
+    });
+  }
+
+  // Forgets the compilations of a folder removed from the workspace.
+  remove(folder: WorkspaceFolder): void {
+    const prefix = `${folder.uri.toString()} `;
+    [this.ongoing, this.sources, this.reports].forEach(
+      (map: Map<string, unknown>) =>
+        map.forEach((_, key) => {
+          if (key.startsWith(prefix)) map.delete(key);
+        })
+    );
+    this.render();
+  }
+
+  show(): void {
+    if (this.panel) {
+      this.panel.reveal();
+      return;
+    }
+    const panel = window.createWebviewPanel(
+      "metals-compilations",
+      "Metals Compilations",
+      ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    this.panel = panel;
+    this.context.subscriptions.push(panel);
+    panel.onDidDispose(() => {
+      this.panel = undefined;
+    });
+    panel.webview.onDidReceiveMessage((message: DashboardMessage) => {
+      if (message.command === "problems") {
+        this.showProblems(message.folder, message.target);
+      } else if (message.command === "clear") {
+        this.records = [];
+        this.context.workspaceState.update(historyKey, this.records);
+        this.render();
+      }
+    });
+    panel.webview.html = html();
+    this.render();
+  }
+
+  private finish(compilation: OngoingCompilation, end: number): void {
+    const key = `${compilation.folder.uri.toString()} ${
+      compilation.targetName
+    }`;
+    const report = this.reports.get(key);
+    this.reports.delete(key);
+    const reported =
+      report && report.received >= compilation.start ? report : undefined;
+    this.sourceDirectories(compilation.folder, compilation.target).then(
+      (directories) =>
+        this.record(compilation, end, reported, errorCount(directories)),
+      () => this.record(compilation, end, reported, undefined)
+    );
+  }
+
+  private record(
+    compilation: OngoingCompilation,
+    end: number,
+    report: CompileReport | undefined,
+    errors: number | undefined
+  ): void {
+    this.records.push({
+      folder: compilation.folder.uri.toString(),
+      target: compilation.target,
+      targetName: compilation.targetName,
+      start: report
+        ? report.received - report.durationMillis
+        : compilation.start,
+      end: report ? report.received : end,
+      success: report
+        ? report.success
+        : errors === undefined
+        ? undefined
+        : errors === 0,
+      errors,
+    });
+    if (this.records.length > maxRecords) {
+      this.records.splice(0, this.records.length - maxRecords);
+    }
+    this.context.workspaceState.update(historyKey, this.records);
+    this.render();
+  }
+
+  private render(): void {
+    this.panel?.webview.postMessage({
+      command: "update",
+      records: this.records,
+      ongoing: Array.from(this.ongoing.values()).map((compilation) => ({
+        folder: compilation.folder.uri.toString(),
+        target: compilation.target,
+        targetName: compilation.targetName,
+        start: compilation.start,
+      })),
+      folders: (workspace.workspaceFolders ?? []).map((folder) => ({
+        uri: folder.uri.toString(),
+        name: folder.name,
+      })),
+    });
+  }
+
+  /**
+   * The source directories of the build target, or its base directory until
+   * its sources are known. Build targets can share their base directory,
+   * e.g. the main and test sources of a project. Unknown sources are looked
+   * up again at most once a minute.
+   */
+  private sourceDirectories(
+    folder: WorkspaceFolder,
+    target: string
+  ): Thenable<string[]> {
+    const key = `${folder.uri.toString()} ${target}`;
+    const cached = this.sources.get(key);
+    if (cached && cached.expires > Date.now()) return cached.directories;
+    const client = this.clients.get(folder);
+    const found: Thenable<string[]> = client
+      ? findSourceDirectories(client, target)
+      : Promise.resolve([]);
+    const directories = found.then(
+      (found) => {
+        if (found.length > 0) return found;
+        entry.expires = Date.now() + unknownSourcesRetryMillis;
+        return [buildTargetDirectory(folder, target)];
+      },
+      () => {
+        entry.expires = Date.now() + unknownSourcesRetryMillis;
+        return [buildTargetDirectory(folder, target)];
+      }
+    );
+    const entry = { directories, expires: Infinity };
+    this.sources.set(key, entry);
+    return directories;
+  }
+
+  /**
+   * Opens the Problems view with its filter focused. VS Code doesn't let
+   * extensions set the filter of the Problems view, the filter of the build
+   * target is copied to the clipboard for the user to paste it.
+   */
+  private async showProblems(folderUri: string, target: string): Promise<void> {
+    const folder = workspace.getWorkspaceFolder(Uri.parse(folderUri));
+    if (!folder) return;
+    const directories = await this.sourceDirectories(folder, target);
+    // The Problems view takes comma separated patterns.
+    const filter = directories
+      .filter((directory) => directory !== folder.uri.fsPath)
+      .map(
+        (directory) =>
+          `${path.relative(folder.uri.fsPath, directory)}${path.sep}`
+      )
+      .join(", ");
+    await commands.executeCommand("workbench.actions.view.problems");
+    if (!filter) return;
+    await env.clipboard.writeText(filter);
+    await commands.executeCommand("problems.action.focusFilter");
+    window.showInformationMessage(
+      `VS Code doesn't let extensions filter the Problems view: copied '${filter}' to the clipboard, paste it in the filter of the Problems view to show only the problems of this build target`
+    );
+  }
+}
+
+export function startCompilationDashboard(
+  context: ExtensionContext,
+  clients: WorkspaceClients
+): CompilationDashboard {
+  const dashboard = new CompilationDashboard(context, clients);
+  context.subscriptions.push(
+    commands.registerCommand("metals.show-compilation-dashboard", () =>
+      dashboard.show()
+    )
+  );
+  return dashboard;
+}
+
+/**
+ * The compile report of a build target in the status of the server, e.g.
+ * `$(check)Compiled core (1.23s)` or `$(alert)Compiled core (1m5s)`.
+ */
+function compileReport(
+  text: string
+):
+  | { targetName: string; success: boolean; durationMillis: number }
+  | undefined {
+  const match = /^\s*\$\((check|alert)\)\s*Compiled (.+) \((?:(\d+)m)?(?:([\d.]+)s)?\)\s*$/.exec(
+    text
+  );
+  if (!match || (!match[3] && !match[4])) return undefined;
+  return {
+    targetName: match[2],
+    success: match[1] === "check",
+    durationMillis: Math.round(
+      (Number(match[3] ?? 0) * 60 + Number(match[4] ?? 0)) * 1000
+    ),
+  };
+}
+
+// `core - 45%` becomes `core`.
+function targetName(node: MetalsTreeViewNode): string {
+  return node.label.replace(/\s*-?\s*\d+(\.\d+)?\s*%\s*$/, "").trim();
+}
+
+/**
+ * The base directory of a build target, its URI is usually the directory
+ * with the target id as query, e.g. `file:///project/core/?id=core`.
+ */
+export function buildTargetDirectory(
+  folder: WorkspaceFolder,
+  target: string
+): string {
+  const folderPath = folder.uri.fsPath;
+  try {
+    const uri = Uri.parse(target, true);
+    if (uri.scheme !== "file") return folderPath;
+    const directory = uri.with({ query: "", fragment: "" }).fsPath;
+    return directory.startsWith(folderPath)
+      ? directory.replace(/[\\/]+$/, "")
+      : folderPath;
+  } catch (_) {
+    return folderPath;
+  }
+}
+
+/**
+ * The source directories of a build target, found from the files of its
+ * classes in the Packages view: `com/example/Foo#` defined in
+ * `/project/src/main/scala/com/example/Foo.scala` is in
+ * `/project/src/main/scala`. One class of each package is looked up.
+ */
+function findSourceDirectories(
+  client: LanguageClient,
+  target: string
+): Thenable<string[]> {
+  return fetchBuildTargets(client)
+    .then((targets) => {
+      const node = targets.find(
+        (node) => node.nodeUri && parseNodeUri(node.nodeUri)?.key === target
+      );
+      return node?.nodeUri ? fetchToplevels(client, node.nodeUri) : [];
+    })
+    .then((toplevels) => {
+      const packages: Map<string, string> = new Map();
+      toplevels.forEach((node) => {
+        const symbol =
+          (node.nodeUri && parseNodeUri(node.nodeUri)?.symbol) ?? "";
+        const packagePath = symbol.substring(0, symbol.lastIndexOf("/") + 1);
+        if (symbol && !packages.has(packagePath)) {
+          packages.set(packagePath, symbol);
+        }
+      });
+      return Promise.all(
+        Array.from(packages.entries()).map(([packagePath, symbol]) =>
+          locateSymbol(symbol).then(
+            (file) => file && sourceDirectory(file.fsPath, packagePath)
+          )
+        )
+      );
+    })
+    .then((directories) =>
+      Array.from(
+        new Set(
+          directories.filter(
+            (directory): directory is string => directory !== undefined
+          )
+        )
+      )
+    );
+}
+
+// The directory of `file` without the directories of its package, if any.
+function sourceDirectory(file: string, packagePath: string): string {
+  const directory = path.dirname(file);
+  const packageDirectory = packagePath
+    .replace(/^(_empty_|_root_)\//, "")
+    .replace(/\/$/, "")
+    .split("/")
+    .join(path.sep);
+  return packageDirectory &&
+    directory.endsWith(`${path.sep}${packageDirectory}`)
+    ? directory.substring(0, directory.length - packageDirectory.length - 1)
+    : directory;
+}
+
+function errorCount(directories: string[]): number {
+  return languages
+    .getDiagnostics()
+    .filter(([uri]) =>
+      directories.some((directory) =>
+        uri.fsPath.startsWith(`${directory}${path.sep}`)
+      )
+    )
+    .reduce(
+      (count, [, diagnostics]) =>
+        count +
+        diagnostics.filter(
+          (diagnostic) => diagnostic.severity === DiagnosticSeverity.Error
+        ).length,
+      0
+    );
+}
+
+function html(): string {
+  const nonce = `${Date.now()}${Math.random()}`.replace(".", "");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<title>Metals Compilations</title>
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 8px; }
+  .toolbar { position: sticky; top: 0; display: flex; gap: 8px; align-items: center; padding: 6px 0; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); }
+  button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 2px 8px; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 8px; }
+  th, td { text-align: left; padding: 3px 8px; border-bottom: 1px solid var(--vscode-panel-border); white-space: nowrap; }
+  th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+  td.number { text-align: right; font-family: var(--vscode-editor-font-family); }
+  a { color: var(--vscode-textLink-foreground); cursor: pointer; }
+  .failure { color: var(--vscode-errorForeground); }
+  .regression { color: var(--vscode-editorWarning-foreground); }
+  .ongoing { color: var(--vscode-descriptionForeground); }
+  .history td { border: none; color: var(--vscode-descriptionForeground); }
+  polyline { fill: none; stroke: var(--vscode-charts-blue); stroke-width: 1.5; }
+  circle { fill: var(--vscode-charts-red); }
+</style>
+</head>
+<body>
+<div class="toolbar">
+  <strong>Compilations</strong>
+  <label><input id="failures" type="checkbox">Only targets with failures</label>
+  <button id="clear">Clear history</button>
+  <span id="count"></span>
+</div>
+<div id="targets"></div>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  const sparklineSize = 30;
+  const expanded = new Set();
+  let state = { records: [], ongoing: [], folders: [] };
+  const escape = (text) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  const duration = (millis) =>
+    millis < 1000 ? millis + "ms" : (millis / 1000).toFixed(1) + "s";
+  const median = (values) => {
+    if (values.length === 0) return undefined;
+    const sorted = values.slice().sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  };
+  const sparkline = (records) => {
+    const recent = records.slice(-sparklineSize);
+    const width = 120, height = 24;
+    const max = Math.max(...recent.map((r) => r.end - r.start), 1);
+    const x = (i) => recent.length === 1 ? width / 2 : (i * (width - 4)) / (recent.length - 1) + 2;
+    const y = (r) => height - 2 - ((r.end - r.start) / max) * (height - 4);
+    const points = recent.map((r, i) => x(i).toFixed(1) + "," + y(r).toFixed(1)).join(" ");
+    const failures = recent
+      .map((r, i) => r.success !== false ? "" : '<circle r="2" cx="' + x(i).toFixed(1) + '" cy="' + y(r).toFixed(1) + '"></circle>')
+      .join("");
+    return '<svg width="' + width + '" height="' + height + '"><title>Last ' + recent.length +
+      " compilations, up to " + duration(max) + '</title><polyline points="' + points + '"></polyline>' +
+      failures + "</svg>";
+  };
+  const result = (r) =>
+    r.success === undefined ? "unknown" : r.success ? "succeeded" : '<span class="failure">failed</span>';
+  const errors = (r) => (r.errors === undefined ? "" : r.errors);
+  const folderName = (uri) => {
+    const folder = state.folders.find((f) => f.uri === uri);
+    return folder ? folder.name : uri;
+  };
+  const render = () => {
+    const groups = new Map();
+    const group = (folder, target, targetName) => {
+      const key = folder + " " + target;
+      if (!groups.has(key)) groups.set(key, { key, folder, target, targetName, records: [], ongoing: undefined });
+      return groups.get(key);
+    };
+    state.records.forEach((r) => group(r.folder, r.target, r.targetName).records.push(r));
+    state.ongoing.forEach((c) => (group(c.folder, c.target, c.targetName).ongoing = c));
+    const onlyFailures = document.getElementById("failures").checked;
+    const showFolder = state.folders.length > 1;
+    const rows = Array.from(groups.values())
+      .filter((g) => !onlyFailures || g.records.some((r) => r.success === false))
+      .sort((a, b) => a.targetName.localeCompare(b.targetName))
+      .map((g) => {
+        const last = g.records[g.records.length - 1];
+        const durations = g.records.map((r) => r.end - r.start);
+        const previous = median(durations.slice(-sparklineSize - 1, -1));
+        const lastDuration = last ? last.end - last.start : undefined;
+        const slower = last && previous && lastDuration > previous * 1.5 && lastDuration - previous > 1000
+          ? ' <span class="regression" title="Median of the previous compilations: ' + duration(previous) + '">+' +
+            Math.round((lastDuration / previous - 1) * 100) + "%</span>"
+          : "";
+        const status = g.ongoing
+          ? '<span class="ongoing">compiling since ' + new Date(g.ongoing.start).toLocaleTimeString() + "</span>"
+          : !last ? "" : result(last);
+        const history = expanded.has(g.key)
+          ? g.records.slice().reverse().map((r) =>
+              '<tr class="history"><td></td><td>' + new Date(r.start).toLocaleString() +
+              '</td><td class="number">' + duration(r.end - r.start) + "</td><td>" +
+              result(r) +
+              '</td><td class="number">' + errors(r) + "</td><td></td><td></td><td></td></tr>"
+            ).join("")
+          : "";
+        return '<tr><td><a data-toggle="' + escape(g.key) + '">' + (expanded.has(g.key) ? "▾ " : "▸ ") +
+          escape(g.targetName) + "</a>" + (showFolder ? " <small>" + escape(folderName(g.folder)) + "</small>" : "") +
+          "</td><td>" + (last ? new Date(last.end).toLocaleString() : "") +
+          '</td><td class="number">' + (last ? duration(lastDuration) + slower : "") +
+          "</td><td>" + status +
+          '</td><td class="number">' + (last ? errors(last) : "") +
+          "</td><td>" + (g.records.length ? sparkline(g.records) : "") +
+          '</td><td class="number">' + (durations.length ? duration(median(durations)) : "") +
+          '</td><td><a title="Opens the Problems view and copies the filter of this build target to the clipboard, VS Code doesn't let extensions filter the Problems view" data-folder="' + escape(g.folder) + '" data-target="' + escape(g.target) + '">Copy Problems filter</a></td></tr>' +
+          history;
+      });
+    document.getElementById("targets").innerHTML = rows.length === 0
+      ? "<p>No compilations recorded yet.</p>"
+      : "<table><tr><th>Build target</th><th>Last compilation</th><th>Duration</th><th>Result</th>" +
+        "<th>Errors</th><th>Trend</th><th>Median</th><th></th></tr>" + rows.join("") + "</table>";
+    document.getElementById("count").textContent = state.records.length + " compilations";
+  };
+  window.addEventListener("message", (event) => {
+    if (event.data.command !== "update") return;
+    state = event.data;
+    render();
+  });
+  document.getElementById("targets").addEventListener("click", (event) => {
+    const link = event.target.closest("a");
+    if (!link) return;
+    if (link.dataset.toggle) {
+      if (expanded.has(link.dataset.toggle)) expanded.delete(link.dataset.toggle);
+      else expanded.add(link.dataset.toggle);
+      render();
+    } else {
+      vscode.postMessage({ command: "problems", folder: link.dataset.folder, target: link.dataset.target });
+    }
+  });
+  document.getElementById("failures").addEventListener("change", render);
+  document.getElementById("clear").addEventListener("click", () =>
+    vscode.postMessage({ command: "clear" })
+  );
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,325 @@
+import { ChildProcess, spawn } from "child_process";
+import {
+  ConfigurationTarget,
+  OutputChannel,
+  ViewColumn,
+  window,
+  workspace,
+} from "vscode";
+import {
+  CloseAction,
+  ErrorAction,
+  ErrorHandler,
+  Executable,
+  LanguageClient,
+  ServerOptions,
+  State,
+} from "vscode-languageclient";
+
+("use strict");
+
+// Number of output lines kept for the crash report.
+const crashReportLines = 200;
+// A server that ran longer than this before crashing gets all its retries back.
+const stableRunMillis = 3 * 60 * 1000;
+const maxRestartDelayMillis = 60 * 1000;
+
+interface ExitStatus {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+interface CrashReport {
+  timestamp: number;
+  status: ExitStatus | undefined;
+  outOfMemory: boolean;
+  output: string[];
+}
+
+/**
+ * Restarts a Metals server that exited unexpectedly, waiting longer after
+ * each crash, up to `metals.serverRestartMaxRetries` times in a row.
+ *
+ * The server process is spawned here rather than by vscode-languageclient to
+ * know its exit code, and its last output lines are kept for the crash report.
+ * vscode-languageclient doesn't kill the processes it didn't spawn, so the
+ * process is killed here once its client stopped.
+ */
+export class ServerCrashRecovery {
+  private readonly output: string[] = [];
+  private server: ChildProcess | undefined;
+  private partialLine = "";
+  private exitStatus: Promise<ExitStatus> | undefined;
+  private attempts = 0;
+  private readySince: number | undefined;
+  private lastCrash: CrashReport | undefined;
+
+  constructor(
+    readonly name: string,
+    readonly outputChannel: OutputChannel,
+    readonly cwd: string
+  ) {}
+
+  // The output channel to pass to the client, it records what it's given.
+  channel(): OutputChannel {
+    const recovery = this;
+    const channel = this.outputChannel;
+    return {
+      get name() {
+        return channel.name;
+      },
+      append(value: string) {
+        recovery.record(value);
+        channel.append(value);
+      },
+      appendLine(value: string) {
+        recovery.record(`${value}\n`);
+        channel.appendLine(value);
+      },
+      clear: () => channel.clear(),
+      show: (column?: ViewColumn | boolean, preserveFocus?: boolean) =>
+        typeof column === "boolean"
+          ? channel.show(column)
+          : channel.show(column, preserveFocus),
+      hide: () => channel.hide(),
+      dispose: () => undefined,
+    };
+  }
+
+  serverOptions(options: ServerOptions): ServerOptions {
+    if (!("command" in options)) return options;
+    const executable: Executable = options;
+    return () => {
+      this.stopServer();
+      const server = spawn(executable.command, executable.args ?? [], {
+        cwd: executable.options?.cwd ?? this.cwd,
+        env: executable.options?.env
+          ? { ...process.env, ...executable.options.env }
+          : undefined,
+        detached: executable.options?.detached,
+        shell: executable.options?.shell,
+      });
+      // The process has no pid when it couldn't be spawned, the reason is
+      // emitted as an error right after.
+      if (!server.pid) {
+        return new Promise((_resolve, reject) =>
+          server.once("error", (error) =>
+            reject(
+              new Error(
+                `Launching ${this.name} with ${executable.command} failed: ${error.message}`
+              )
+            )
+          )
+        );
+      }
+      server.on("error", (error) =>
+        this.outputChannel.appendLine(`${this.name} process error: ${error}`)
+      );
+      this.server = server;
+      this.exitStatus = exitStatus(server);
+      return Promise.resolve(server);
+    };
+  }
+
+  // Kills the server process once `client` stopped, including when it's
+  // stopped to be relaunched or when the extension is deactivated.
+  watch(client: LanguageClient): void {
+    const listener = client.onDidChangeState(({ newState }) => {
+      if (newState !== State.Stopped) return;
+      listener.dispose();
+      this.stopServer();
+    });
+  }
+
+  /**
+   * Gives the server process the time to exit after the `exit` notification
+   * of its client, and kills it otherwise.
+   */
+  stopServer(): Promise<void> {
+    const server = this.server;
+    if (!server || server.exitCode !== null || server.signalCode !== null) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        server.kill();
+        resolve();
+      }, 2000);
+      server.once("exit", () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * The error handler of the client, `relaunch` launches a new client for
+   * the same workspace folder.
+   */
+  errorHandler(relaunch: () => unknown): ErrorHandler {
+    return {
+      error: (_error, _message, count) =>
+        count && count <= 3 ? ErrorAction.Continue : ErrorAction.Shutdown,
+      closed: () => {
+        this.onCrash(relaunch);
+        return CloseAction.DoNotRestart;
+      },
+    };
+  }
+
+  // Called once the server is initialized.
+  ready(): void {
+    this.readySince = Date.now();
+  }
+
+  openCrashReport(): Thenable<unknown> {
+    const crash = this.lastCrash;
+    if (!crash) {
+      return window.showInformationMessage(`${this.name} hasn't crashed`);
+    }
+    return workspace
+      .openTextDocument({ language: "markdown", content: this.report(crash) })
+      .then((document) => window.showTextDocument(document));
+  }
+
+  private async onCrash(relaunch: () => unknown): Promise<void> {
+    if (this.readySince && Date.now() - this.readySince > stableRunMillis) {
+      this.attempts = 0;
+    }
+    this.readySince = undefined;
+    const status = await Promise.race([
+      this.exitStatus,
+      new Promise<undefined>((resolve) => setTimeout(resolve, 5000)),
+    ]);
+    const crash: CrashReport = {
+      timestamp: Date.now(),
+      status,
+      outOfMemory: this.output.some((line) =>
+        /java\.lang\.OutOfMemoryError|GC overhead limit exceeded/.test(line)
+      ),
+      output: this.output.slice(),
+    };
+    this.lastCrash = crash;
+    this.outputChannel.appendLine(
+      `${this.name} stopped unexpectedly (${describeStatus(status)})`
+    );
+    if (crash.outOfMemory) this.offerMoreMemory();
+
+    const maxRetries = workspace
+      .getConfiguration("metals")
+      .get<number>("serverRestartMaxRetries", 5);
+    const openReport = "Open crash report";
+    if (this.attempts >= maxRetries) {
+      const restart = "Restart";
+      const choice = await window.showErrorMessage(
+        `${this.name} crashed ${
+          this.attempts + 1
+        } times in a row and won't be restarted automatically.`,
+        restart,
+        openReport
+      );
+      if (choice === restart) {
+        this.attempts = 0;
+        relaunch();
+      } else if (choice === openReport) {
+        this.openCrashReport();
+      }
+      return;
+    }
+    const delay = Math.min(1000 * 2 ** this.attempts, maxRestartDelayMillis);
+    this.attempts++;
+    this.outputChannel.appendLine(
+      `Restarting ${this.name} in ${delay / 1000}s (attempt ${
+        this.attempts
+      } of ${maxRetries})`
+    );
+    setTimeout(relaunch, delay);
+    window
+      .showWarningMessage(
+        `${this.name} stopped unexpectedly (${describeStatus(
+          status
+        )}), restarting it.`,
+        openReport
+      )
+      .then((choice) => {
+        if (choice === openReport) this.openCrashReport();
+      });
+  }
+
+  private offerMoreMemory(): Thenable<void> {
+    const config = workspace.getConfiguration("metals");
+    const properties = config.get<string[]>("serverProperties") ?? [];
+    const current = properties.find((property) => /^-Xmx/.test(property));
+    const increased = increaseMaxHeap(current);
+    const action = `Use ${increased}`;
+    return window
+      .showWarningMessage(
+        `${this.name} ran out of memory${
+          current ? ` with ${current}` : ""
+        }. Do you want to raise its maximum heap size in metals.serverProperties?`,
+        action
+      )
+      .then((choice) => {
+        if (choice !== action) return;
+        const inspected = config.inspect<string[]>("serverProperties");
+        const target =
+          inspected?.workspaceValue !== undefined
+            ? ConfigurationTarget.Workspace
+            : ConfigurationTarget.Global;
+        return config.update(
+          "serverProperties",
+          properties
+            .filter((property) => !/^-Xmx/.test(property))
+            .concat(increased),
+          target
+        );
+      });
+  }
+
+  private record(value: string): void {
+    const lines = (this.partialLine + value).split(/\r?\n/);
+    this.partialLine = lines.pop() ?? "";
+    this.output.push(...lines);
+    if (this.output.length > crashReportLines) {
+      this.output.splice(0, this.output.length - crashReportLines);
+    }
+  }
+
+  private report(crash: CrashReport): string {
+    return [
+      `# ${this.name} crash report`,
+      "",
+      `- Time: ${new Date(crash.timestamp).toLocaleString()}`,
+      `- Workspace folder: ${this.cwd}`,
+      `- Exit: ${describeStatus(crash.status)}`,
+      `- Out of memory: ${crash.outOfMemory ? "yes" : "no"}`,
+      `- Restart attempts: ${this.attempts}`,
+      "",
+      `## Last ${crash.output.length} lines of output`,
+      "",
+      "```",
+      ...crash.output,
+      "```",
+      "",
+    ].join("\n");
+  }
+}
+
+// Doubles the heap size of `-Xmx`, or starts from 2G when it's not set.
+export function increaseMaxHeap(current: string | undefined): string {
+  const match = current && /^-Xmx(\d+)([kKmMgG]?)$/.exec(current);
+  if (!match) return "-Xmx2G";
+  return `-Xmx${Number(match[1]) * 2}${match[2]}`;
+}
+
+function exitStatus(process: ChildProcess): Promise<ExitStatus> {
+  return new Promise((resolve) =>
+    process.on("exit", (code, signal) => resolve({ code, signal }))
+  );
+}
+
+function describeStatus(status: ExitStatus | undefined): string {
+  if (!status) return "exit code unknown";
+  if (status.signal) return `killed by ${status.signal}`;
+  return `exit code ${status.code}`;
+}
@@ -0,0 +1,128 @@
+import {
+  Disposable,
+  Position,
+  Range,
+  TextDocumentContentChangeEvent,
+  TextEditor,
+  Uri,
+  window,
+  workspace,
+} from "vscode";
+import {
+  MetalsDecorationOptions,
+  PublishDecorationsParams,
+} from "./decoration-protocol";
+
+("use strict");
+
+/**
+ * The last decorations published by Metals for each open document.
+ *
+ * VS Code drops the decorations of an editor as soon as it's hidden, and
+ * Metals only publishes them again on the next change, so they are re-applied
+ * from this cache whenever an editor for the document becomes visible.
+ */
+export class DecorationCache {
+  private readonly cache: Map<string, PublishDecorationsParams> = new Map();
+
+  constructor(
+    readonly apply: (
+      editor: TextEditor,
+      params: PublishDecorationsParams
+    ) => void
+  ) {}
+
+  publish(params: PublishDecorationsParams): void {
+    const uri = Uri.parse(params.uri).toString();
+    this.cache.set(uri, params);
+    window.visibleTextEditors
+      .filter((editor) => editor.document.uri.toString() === uri)
+      .forEach((editor) => this.apply(editor, params));
+  }
+
+  // Applies the cached decorations again to every visible editor.
+  refresh(): void {
+    window.visibleTextEditors.forEach((editor) => {
+      const params = this.get(editor.document.uri);
+      if (params) this.apply(editor, params);
+    });
+  }
+
+  get(uri: Uri): PublishDecorationsParams | undefined {
+    return this.cache.get(uri.toString());
+  }
+
+  register(): Disposable[] {
+    return [
+      window.onDidChangeVisibleTextEditors((editors) =>
+        editors.forEach((editor) => {
+          const params = this.get(editor.document.uri);
+          if (params) this.apply(editor, params);
+        })
+      ),
+      workspace.onDidCloseTextDocument((document) => {
+        this.cache.delete(document.uri.toString());
+      }),
+      workspace.onDidChangeTextDocument((event) => {
+        const params = this.get(event.document.uri);
+        if (params && event.contentChanges.length > 0) {
+          this.cache.set(event.document.uri.toString(), {
+            uri: params.uri,
+            options: event.contentChanges.reduce(
+              (options, change) => shiftOptions(options, change),
+              params.options
+            ),
+          });
+        }
+      }),
+    ];
+  }
+}
+
+/**
+ * Moves the decorations after an edit the same way VS Code moves the
+ * decorations of a visible editor, decorations overlapping the edited range
+ * are dropped until Metals publishes them again.
+ */
+function shiftOptions(
+  options: MetalsDecorationOptions[],
+  change: TextDocumentContentChangeEvent
+): MetalsDecorationOptions[] {
+  const shifted: MetalsDecorationOptions[] = [];
+  options.forEach((option) => {
+    const range = new Range(
+      new Position(option.range.start.line, option.range.start.character),
+      new Position(option.range.end.line, option.range.end.character)
+    );
+    if (range.end.isBeforeOrEqual(change.range.start)) {
+      shifted.push(option);
+    } else if (range.start.isAfterOrEqual(change.range.end)) {
+      shifted.push({
+        ...option,
+        range: new Range(
+          shiftPosition(range.start, change),
+          shiftPosition(range.end, change)
+        ),
+      });
+    }
+  });
+  return shifted;
+}
+
+function shiftPosition(
+  position: Position,
+  change: TextDocumentContentChangeEvent
+): Position {
+  const lines = change.text.split(/\r?\n/);
+  const lineDelta =
+    lines.length - 1 - (change.range.end.line - change.range.start.line);
+  if (position.line !== change.range.end.line) {
+    return position.translate(lineDelta);
+  }
+  const lastLine = lines[lines.length - 1].length;
+  const character =
+    (lines.length > 1 ? lastLine : change.range.start.character + lastLine) +
+    position.character -
+    change.range.end.character;
+  return new Position(position.line + lineDelta, character);
+}
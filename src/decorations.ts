@@ -0,0 +1,220 @@
+import {
+  DecorationInstanceRenderOptions,
+  DecorationOptions,
+  DecorationRangeBehavior,
+  DecorationRenderOptions,
+  Disposable,
+  Position,
+  Range,
+  TextEditor,
+  TextEditorDecorationType,
+  ThemeColor,
+  window,
+  workspace,
+} from "vscode";
+import {
+  MetalsDecorationOptions,
+  PublishDecorationsParams,
+} from "./decoration-protocol";
+import { DecorationCache } from "./decoration-cache";
+
+("use strict");
+
+export type DecorationKind =
+  | "inferredType"
+  | "implicitArguments"
+  | "implicitConversions"
+  | "worksheet"
+  // The decorations whose kind isn't known, with the style sent by Metals.
+  | "synthetic";
+
+const decorationKinds: DecorationKind[] = [
+  "inferredType",
+  "implicitArguments",
+  "implicitConversions",
+  "worksheet",
+  "synthetic",
+];
+
+// The setting toggling each kind of synthetic decoration, also read by Metals.
+const toggleSettings: Partial<Record<DecorationKind, string>> = {
+  inferredType: "showInferredType",
+  implicitArguments: "showImplicitArguments",
+  implicitConversions: "showImplicitConversionsAndClasses",
+};
+
+// The setting configuring the style of each kind of decoration.
+const styleSettings: Partial<Record<DecorationKind, string>> = {
+  inferredType: "inferredTypeDecoration",
+  implicitArguments: "implicitArgumentsDecoration",
+  implicitConversions: "implicitConversionsDecoration",
+  worksheet: "worksheetDecoration",
+};
+
+interface DecorationStyle {
+  color?: string;
+  fontStyle?: string;
+}
+
+/**
+ * The decorations published by Metals, split by kind so that each kind has
+ * its own style and can be hidden as soon as its setting is toggled, before
+ * Metals publishes the decorations again.
+ */
+export class MetalsDecorations {
+  private readonly cache = new DecorationCache((editor, params) =>
+    this.apply(editor, params)
+  );
+  private serverOptions: DecorationRenderOptions = {};
+  private types: Map<DecorationKind, TextEditorDecorationType> = new Map();
+
+  constructor() {
+    this.createTypes();
+  }
+
+  register(): Disposable[] {
+    return this.cache.register().concat(
+      workspace.onDidChangeConfiguration((event) => {
+        const affected = decorationKinds.some((kind) =>
+          [toggleSettings[kind], styleSettings[kind]].some(
+            (setting) =>
+              setting && event.affectsConfiguration(`metals.${setting}`)
+          )
+        );
+        if (affected) this.recreateTypes();
+      }),
+      { dispose: () => this.types.forEach((type) => type.dispose()) }
+    );
+  }
+
+  publish(params: PublishDecorationsParams): void {
+    this.cache.publish(params);
+  }
+
+  // Called with the options of `metals/decorationTypeDidChange`.
+  setServerOptions(options: DecorationRenderOptions): void {
+    this.serverOptions = options;
+    this.recreateTypes();
+  }
+
+  private recreateTypes(): void {
+    // Disposing a decoration type removes its decorations from every editor.
+    this.types.forEach((type) => type.dispose());
+    this.createTypes();
+    this.cache.refresh();
+  }
+
+  private createTypes(): void {
+    this.types = new Map(
+      decorationKinds.map((kind) => {
+        const style = decorationStyle(kind);
+        const options: DecorationRenderOptions =
+          kind === "worksheet"
+            ? { isWholeLine: true }
+            : { ...this.serverOptions };
+        return [
+          kind,
+          window.createTextEditorDecorationType({
+            ...options,
+            rangeBehavior: DecorationRangeBehavior.OpenClosed,
+            after: { ...options.after, ...themableStyle(style) },
+          }),
+        ];
+      })
+    );
+  }
+
+  private apply(editor: TextEditor, params: PublishDecorationsParams): void {
+    const byKind: Map<DecorationKind, DecorationOptions[]> = new Map(
+      decorationKinds.map((kind) => [kind, []])
+    );
+    const enabled = enabledKinds();
+    params.options.forEach((option) => {
+      const kind = decorationKind(params.uri, option, enabled);
+      byKind.get(kind)?.push({
+        range: new Range(
+          new Position(option.range.start.line, option.range.start.character),
+          new Position(option.range.end.line, option.range.end.character)
+        ),
+        hoverMessage: option.hoverMessage?.value,
+        renderOptions: withStyle(option.renderOptions, decorationStyle(kind)),
+      });
+    });
+    byKind.forEach((options, kind) => {
+      const type = this.types.get(kind);
+      if (type) editor.setDecorations(type, isShown(kind) ? options : []);
+    });
+  }
+}
+
+/**
+ * Metals doesn't tell the kind of each decoration. It only publishes the
+ * kinds enabled in the settings, so the kind is known when a single one is
+ * enabled. Otherwise it's guessed from the text rendered after the range:
+ * `: Int` or `[Int]` for an inferred type, `(ec)` or `(using ec)` for
+ * implicit arguments, and `conversion(` followed by `)` around the converted
+ * expression. Other texts keep the style sent by Metals.
+ */
+export function decorationKind(
+  uri: string,
+  option: MetalsDecorationOptions,
+  enabled: DecorationKind[] = enabledKinds()
+): DecorationKind {
+  if (uri.endsWith(".worksheet.sc")) return "worksheet";
+  if (enabled.length === 1) return enabled[0];
+  const text = option.renderOptions?.after?.contentText?.trim() ?? "";
+  if (text.startsWith(":") || text.startsWith("[")) return "inferredType";
+  if (text.startsWith("(") && text.endsWith(")") && text.length > 2) {
+    return "implicitArguments";
+  }
+  if (text === ")" || /^[\w$.]+\($/.test(text)) return "implicitConversions";
+  return "synthetic";
+}
+
+// The kinds of synthetic decorations enabled in the settings.
+function enabledKinds(): DecorationKind[] {
+  const config = workspace.getConfiguration("metals");
+  return decorationKinds.filter((kind) => {
+    const setting = toggleSettings[kind];
+    return setting !== undefined && config.get(setting) === true;
+  });
+}
+
+function isShown(kind: DecorationKind): boolean {
+  const setting = toggleSettings[kind];
+  return (
+    !setting || workspace.getConfiguration("metals").get(setting) !== false
+  );
+}
+
+function decorationStyle(kind: DecorationKind): DecorationStyle {
+  const setting = styleSettings[kind];
+  return (
+    (setting &&
+      workspace.getConfiguration("metals").get<DecorationStyle>(setting)) ||
+    {}
+  );
+}
+
+// The color can either be a CSS color or the id of a theme color.
+function themableStyle(
+  style: DecorationStyle
+): { color?: string | ThemeColor; fontStyle?: string } {
+  const result: { color?: string | ThemeColor; fontStyle?: string } = {};
+  if (style.color) {
+    result.color = /^[\w-]+(\.[\w-]+)+$/.test(style.color)
+      ? new ThemeColor(style.color)
+      : style.color;
+  }
+  if (style.fontStyle) result.fontStyle = style.fontStyle;
+  return result;
+}
+
+// The style configured by the user wins over the one sent by Metals.
+function withStyle(
+  options: DecorationInstanceRenderOptions | undefined,
+  style: DecorationStyle
+): DecorationInstanceRenderOptions | undefined {
+  if (!options?.after || (!style.color && !style.fontStyle)) return options;
+  return { ...options, after: { ...options.after, ...themableStyle(style) } };
+}
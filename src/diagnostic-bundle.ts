@@ -0,0 +1,235 @@
+import * as os from "os";
+import * as path from "path";
+import {
+  env,
+  ExtensionContext,
+  TextDocument,
+  Uri,
+  version as vscodeVersion,
+  window,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
+import { DoctorResults, findBuildFile } from "./doctor";
+import { formatEntry, LogEntry } from "./log-viewer";
+
+("use strict");
+
+// Logs of the last minutes included in the bundle.
+const recentLogsMinutes = 30;
+
+const buildTools: Record<string, string> = {
+  "build.sbt": "sbt",
+  "build.sc": "mill",
+  "build.gradle": "Gradle",
+  "build.gradle.kts": "Gradle",
+  "pom.xml": "Maven",
+};
+
+/**
+ * Where the diagnostic bundle gets the state of the running servers from.
+ */
+export interface DiagnosticSources {
+  javaHome(): string | undefined;
+  doctorResults(folder: WorkspaceFolder): DoctorResults | undefined;
+  recentLogs(minutes: number): LogEntry[];
+}
+
+/**
+ * Gathers the environment, settings, doctor results and recent logs of
+ * Metals into a Markdown report, opened for review before it's saved.
+ */
+export async function createDiagnosticBundle(
+  context: ExtensionContext,
+  sources: DiagnosticSources
+): Promise<void> {
+  const report = redact(await diagnosticReport(context, sources));
+  const document = await workspace.openTextDocument({
+    language: "markdown",
+    content: report,
+  });
+  await window.showTextDocument(document);
+  const save = "Save...";
+  const copy = "Copy to clipboard";
+  const choice = await window.showInformationMessage(
+    "Review the diagnostic bundle before sharing it. Secrets, proxy credentials and home directories were redacted, the report can still be edited.",
+    save,
+    copy
+  );
+  if (choice === save) {
+    await saveReport(document);
+  } else if (choice === copy) {
+    await env.clipboard.writeText(document.getText());
+  }
+}
+
+async function saveReport(document: TextDocument): Promise<void> {
+  const folder = workspace.workspaceFolders?.[0];
+  const target = await window.showSaveDialog({
+    defaultUri: folder
+      ? Uri.joinPath(folder.uri, "metals-diagnostics.md")
+      : undefined,
+    filters: { Markdown: ["md"] },
+  });
+  if (target) {
+    // The report may have been edited after review.
+    await workspace.fs.writeFile(
+      target,
+      Buffer.from(document.getText(), "utf8")
+    );
+    window.showInformationMessage(
+      `Saved the diagnostic bundle to ${target.fsPath}`
+    );
+  }
+}
+
+async function diagnosticReport(
+  context: ExtensionContext,
+  sources: DiagnosticSources
+): Promise<string> {
+  const config = workspace.getConfiguration("metals");
+  const serverVersion =
+    config.get<string>("serverVersion")?.trim() ||
+    config.inspect<string>("serverVersion")?.defaultValue;
+  const lines: string[] = [
+    "# Metals diagnostic bundle",
+    "",
+    `Created on ${new Date().toISOString()}`,
+    "",
+    "## Environment",
+    "",
+    `- Extension version: ${context.extension.packageJSON.version}`,
+    `- VS Code version: ${vscodeVersion}`,
+    `- Operating system: ${os.type()} ${os.release()} (${os.arch()})`,
+    `- Java home: ${sources.javaHome() ?? "not found"}`,
+    `- Metals version: ${serverVersion}`,
+    "",
+    "## Settings",
+    "",
+    ...settingLines(),
+  ];
+
+  for (const folder of workspace.workspaceFolders ?? []) {
+    lines.push("", `## Workspace folder ${folder.name}`, "");
+    const buildFile = await findBuildFile(folder);
+    const buildTool = buildFile
+      ? buildTools[path.basename(buildFile.fsPath)]
+      : undefined;
+    const hasBloop = await workspace.fs
+      .stat(Uri.joinPath(folder.uri, ".bloop"))
+      .then(
+        () => true,
+        () => false
+      );
+    lines.push(
+      `- Path: ${folder.uri.fsPath}`,
+      `- Build tool: ${buildTool ?? "unknown"}`,
+      `- Bloop workspace: ${hasBloop ? "yes" : "no"}`,
+      "",
+      "### Doctor",
+      "",
+      ...doctorLines(sources.doctorResults(folder))
+    );
+  }
+
+  const logs = sources.recentLogs(recentLogsMinutes);
+  lines.push(
+    "",
+    `## Logs of the last ${recentLogsMinutes} minutes`,
+    "",
+    "```",
+    ...logs.map(formatEntry),
+    "```",
+    ""
+  );
+  return lines.join("\n");
+}
+
+function settingLines(): string[] {
+  const config = workspace.getConfiguration("metals");
+  const settings = [
+    "javaHome",
+    "serverVersion",
+    "serverProperties",
+    "serverBundle",
+    "customRepositories",
+    "ammoniteJvmProperties",
+    "sbtScript",
+    "millScript",
+    "mavenScript",
+    "gradleScript",
+    "bloopVersion",
+    "bloopSbtAlreadyInstalled",
+  ];
+  return settings.map((setting) => {
+    const value = config.get(setting);
+    return `- metals.${setting}: ${
+      value === undefined || value === "" ? "not set" : JSON.stringify(value)
+    }`;
+  });
+}
+
+function doctorLines(results: DoctorResults | undefined): string[] {
+  if (!results) {
+    return [
+      "The doctor didn't run for this folder, run `Metals: Run doctor` and create the bundle again to include it.",
+    ];
+  }
+  const lines = [results.headerText, ""];
+  (results.messages ?? []).forEach((message) => {
+    lines.push(`- **${message.title}**`);
+    message.recommendations.forEach((recommendation) =>
+      lines.push(`  - ${recommendation}`)
+    );
+  });
+  const targets = results.targets ?? [];
+  if (targets.length > 0) {
+    lines.push(
+      "",
+      "| Build target | Scala version | Diagnostics | Definitions | Completions | References | Recommendation |",
+      "| --- | --- | --- | --- | --- | --- | --- |"
+    );
+    targets.forEach((target) =>
+      lines.push(
+        `| ${[
+          target.name ?? target.buildTarget,
+          target.scalaVersion,
+          target.diagnosticsStatus,
+          target.definitionStatus,
+          target.completionsStatus,
+          target.referencesStatus,
+          target.recommendation,
+        ]
+          .map((cell) => (cell ?? "").replace(/\|/g, "\\|"))
+          .join(" | ")} |`
+      )
+    );
+  }
+  return lines;
+}
+
+/**
+ * Hides the home directory, also escaped as in JSON, the credentials of URLs
+ * and the values of properties named after secrets, such as
+ * `-Dhttps.proxyPassword=...` or `"auth_token": "..."`.
+ */
+export function redact(text: string): string {
+  const home = os.homedir();
+  // `C:\Users\name` is `C:\\Users\\name` in JSON.
+  const homes = home.includes("\\")
+    ? [home.replace(/\\/g, "\\\\"), home, home.replace(/\\/g, "/")]
+    : [home];
+  let redacted =
+    home.length > 1
+      ? homes.reduce((result, variant) => result.split(variant).join("~"), text)
+      : text;
+  redacted = redacted.replace(
+    /\b([a-z][a-z0-9+.-]*:\/\/)[^\s/@:]+(:[^\s/@]*)?@/gi,
+    "$1***@"
+  );
+  redacted = redacted.replace(
+    /(\b[\w.-]*(?:password|passwd|secret|token|api[-_]?key|credentials?|proxyUser|authorization|auth)"?\s*[=:]\s*)((?:Bearer\s+|Basic\s+)?(?:"[^"]*"|[^\s",]+))/gi,
+    "$1***"
+  );
+  return redacted;
+}
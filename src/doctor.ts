@@ -0,0 +1,418 @@
+import {
+  commands,
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+  ViewColumn,
+  WebviewPanel,
+  window,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
+import { ExecuteCommandRequest } from "vscode-languageclient";
+import { ServerCommands } from "metals-languageclient";
+import { WorkspaceClients } from "./workspace-clients";
+
+("use strict");
+
+export const doctorViewId = "metalsDoctor";
+
+// The build definitions opened by "Open build file", in order of preference.
+const buildFiles = [
+  "build.sbt",
+  "build.sc",
+  "build.gradle",
+  "build.gradle.kts",
+  "pom.xml",
+];
+
+/**
+ * The doctor results sent by Metals as JSON when `doctorProvider` is `json`.
+ */
+export interface DoctorResults {
+  title: string;
+  headerText: string;
+  messages?: DoctorMessage[];
+  targets?: DoctorTargetInfo[];
+  explanations?: DoctorExplanation[];
+}
+
+interface DoctorMessage {
+  title: string;
+  recommendations: string[];
+}
+
+interface DoctorTargetInfo {
+  // Older servers name the field `buildTarget`.
+  name?: string;
+  buildTarget?: string;
+  scalaVersion?: string;
+  diagnosticsStatus?: string;
+  definitionStatus?: string;
+  completionsStatus?: string;
+  referencesStatus?: string;
+  recommendation?: string;
+}
+
+interface DoctorExplanation {
+  title: string;
+  explanations: string[];
+}
+
+type DoctorNode =
+  | { kind: "folder"; folder: WorkspaceFolder }
+  | { kind: "message"; folder: WorkspaceFolder; message: DoctorMessage }
+  | { kind: "target"; folder: WorkspaceFolder; target: DoctorTargetInfo }
+  | { kind: "explanation"; explanation: DoctorExplanation }
+  | { kind: "detail"; label: string; description?: string; icon?: ThemeIcon };
+
+/**
+ * The "Build targets health" view, listing the doctor results of each
+ * workspace folder.
+ */
+export class Doctor implements TreeDataProvider<DoctorNode> {
+  private didChange = new EventEmitter<undefined>();
+  onDidChangeTreeData: Event<undefined> = this.didChange.event;
+  private didUpdate = new EventEmitter<{
+    folder: WorkspaceFolder;
+    targets: string[];
+  }>();
+  // Fired with the names of the build targets of the new results of a folder.
+  onDidUpdate = this.didUpdate.event;
+  private readonly results: Map<string, DoctorResults> = new Map();
+  // The HTML doctor of the servers that don't send the results as JSON.
+  private readonly panels: Map<string, WebviewPanel> = new Map();
+
+  constructor(readonly clients: WorkspaceClients) {}
+
+  // Called with the argument of the `metals-doctor-run` and
+  // `metals-doctor-reload` client commands, `reveal` is false on reload.
+  update(folder: WorkspaceFolder, results: string, reveal: boolean): void {
+    let parsed: DoctorResults;
+    try {
+      parsed = JSON.parse(results);
+    } catch (error) {
+      this.showHtml(folder, results, reveal);
+      return;
+    }
+    this.results.set(folder.uri.toString(), parsed);
+    this.didChange.fire(undefined);
+    this.didUpdate.fire({
+      folder,
+      targets: (parsed.targets ?? []).map(targetName),
+    });
+    if (reveal) commands.executeCommand(`${doctorViewId}.focus`);
+  }
+
+  resultsOf(folder: WorkspaceFolder): DoctorResults | undefined {
+    return this.results.get(folder.uri.toString());
+  }
+
+  /**
+   * The build server of the last results of `folder`, from the header:
+   * "Build server currently being used is Bloop v1.4.8."
+   */
+  buildServerOf(folder: WorkspaceFolder): string | undefined {
+    const header = this.results.get(folder.uri.toString())?.headerText ?? "";
+    return /Build server currently being used is (.+?)\.?\s*$/m
+      .exec(header)?.[1]
+      .trim();
+  }
+
+  remove(folder: WorkspaceFolder): void {
+    if (this.results.delete(folder.uri.toString())) {
+      this.didChange.fire(undefined);
+    }
+    this.panels.get(folder.uri.toString())?.dispose();
+  }
+
+  // A reload only refreshes the panel that is already open.
+  private showHtml(folder: WorkspaceFolder, html: string, reveal: boolean) {
+    const key = folder.uri.toString();
+    let panel = this.panels.get(key);
+    if (!panel) {
+      if (!reveal) return;
+      const folders = workspace.workspaceFolders ?? [];
+      panel = window.createWebviewPanel(
+        "metals-doctor",
+        folders.length > 1 ? `Metals (${folder.name}) Doctor` : "Metals Doctor",
+        ViewColumn.Active,
+        { enableCommandUris: true }
+      );
+      this.panels.set(key, panel);
+      panel.onDidDispose(() => this.panels.delete(key));
+    } else if (reveal) {
+      panel.reveal();
+    }
+    panel.webview.html = html;
+  }
+
+  getTreeItem(node: DoctorNode): TreeItem {
+    switch (node.kind) {
+      case "folder":
+        return {
+          label: node.folder.name,
+          tooltip: this.results.get(node.folder.uri.toString())?.headerText,
+          iconPath: ThemeIcon.Folder,
+          collapsibleState: TreeItemCollapsibleState.Expanded,
+          contextValue: "doctorFolder",
+        };
+      case "message":
+        return {
+          label: node.message.title,
+          iconPath: new ThemeIcon("warning"),
+          collapsibleState:
+            node.message.recommendations.length > 0
+              ? TreeItemCollapsibleState.Expanded
+              : TreeItemCollapsibleState.None,
+          contextValue: "doctorMessage",
+        };
+      case "target":
+        return {
+          label: targetName(node.target),
+          description: [
+            node.target.scalaVersion ?? "",
+            `references ${statusSymbol(node.target.referencesStatus)}`,
+            `diagnostics ${statusSymbol(node.target.diagnosticsStatus)}`,
+          ].join("  "),
+          tooltip: node.target.recommendation,
+          iconPath: statusIcon(worstStatus(node.target)),
+          collapsibleState: TreeItemCollapsibleState.Collapsed,
+          contextValue: "doctorTarget",
+        };
+      case "explanation":
+        return {
+          label: node.explanation.title,
+          iconPath: new ThemeIcon("info"),
+          collapsibleState: TreeItemCollapsibleState.Collapsed,
+        };
+      case "detail":
+        return {
+          label: node.label,
+          description: node.description,
+          tooltip: node.description
+            ? `${node.label}: ${node.description}`
+            : node.label,
+          iconPath: node.icon,
+          collapsibleState: TreeItemCollapsibleState.None,
+        };
+    }
+  }
+
+  getChildren(node?: DoctorNode): DoctorNode[] {
+    if (!node) {
+      const folders = (workspace.workspaceFolders ?? []).filter((folder) =>
+        this.results.has(folder.uri.toString())
+      );
+      return folders.length === 1
+        ? this.folderChildren(folders[0])
+        : folders.map((folder) => ({ kind: "folder", folder }));
+    }
+    switch (node.kind) {
+      case "folder":
+        return this.folderChildren(node.folder);
+      case "message":
+        return node.message.recommendations.map((recommendation) => ({
+          kind: "detail",
+          label: recommendation,
+          icon: new ThemeIcon("lightbulb"),
+        }));
+      case "target":
+        return targetDetails(node.target);
+      case "explanation":
+        return node.explanation.explanations.map((explanation) => ({
+          kind: "detail",
+          label: explanation,
+        }));
+      default:
+        return [];
+    }
+  }
+
+  importBuild(node?: DoctorNode): Thenable<void> {
+    return this.sendCommand(node, ServerCommands.BuildImport);
+  }
+
+  switchBuildServer(node?: DoctorNode): Thenable<void> {
+    return this.sendCommand(node, ServerCommands.BspSwitch);
+  }
+
+  openBuildFile(node?: DoctorNode): Thenable<void> {
+    const folder = nodeFolder(node) ?? workspace.workspaceFolders?.[0];
+    if (!folder) return Promise.resolve();
+    return findBuildFile(folder).then((file) => {
+      if (file) {
+        return window.showTextDocument(file).then(() => undefined);
+      }
+      window.showInformationMessage(
+        `No build file found in ${
+          folder.name
+        }, expected one of ${buildFiles.join(", ")}`
+      );
+    });
+  }
+
+  private sendCommand(
+    node: DoctorNode | undefined,
+    command: string
+  ): Thenable<void> {
+    const folder = nodeFolder(node);
+    const client = folder ? this.clients.get(folder) : undefined;
+    return (client
+      ? Promise.resolve(client)
+      : this.clients.select()
+    ).then((selected) =>
+      selected?.sendRequest(ExecuteCommandRequest.type, { command })
+    );
+  }
+
+  private folderChildren(folder: WorkspaceFolder): DoctorNode[] {
+    const results = this.results.get(folder.uri.toString());
+    if (!results) return [];
+    const nodes: DoctorNode[] = [];
+    (results.messages ?? []).forEach((message) =>
+      nodes.push({ kind: "message", folder, message })
+    );
+    (results.targets ?? []).forEach((target) =>
+      nodes.push({ kind: "target", folder, target })
+    );
+    (results.explanations ?? []).forEach((explanation) =>
+      nodes.push({ kind: "explanation", explanation })
+    );
+    return nodes;
+  }
+}
+
+export function startDoctor(
+  context: ExtensionContext,
+  clients: WorkspaceClients
+): Doctor {
+  const doctor = new Doctor(clients);
+  context.subscriptions.push(
+    window.registerTreeDataProvider(doctorViewId, doctor),
+    commands.registerCommand("metals.doctor-import-build", (node?) =>
+      doctor.importBuild(node)
+    ),
+    commands.registerCommand("metals.doctor-switch-build-server", (node?) =>
+      doctor.switchBuildServer(node)
+    ),
+    commands.registerCommand("metals.doctor-open-build-file", (node?) =>
+      doctor.openBuildFile(node)
+    )
+  );
+  return doctor;
+}
+
+function nodeFolder(node?: DoctorNode): WorkspaceFolder | undefined {
+  return node && "folder" in node ? node.folder : undefined;
+}
+
+export function findBuildFile(
+  folder: WorkspaceFolder
+): Thenable<Uri | undefined> {
+  const candidates = buildFiles.map((file) => Uri.joinPath(folder.uri, file));
+  return Promise.all(
+    candidates.map((uri) =>
+      workspace.fs.stat(uri).then(
+        () => true,
+        () => false
+      )
+    )
+  ).then((exists) => candidates.find((_uri, i) => exists[i]));
+}
+
+function targetName(target: DoctorTargetInfo): string {
+  return target.name ?? target.buildTarget ?? "";
+}
+
+function targetDetails(target: DoctorTargetInfo): DoctorNode[] {
+  const details: DoctorNode[] = [
+    {
+      kind: "detail",
+      label: "Scala version",
+      description: target.scalaVersion ?? "unknown",
+      icon: new ThemeIcon("symbol-namespace"),
+    },
+    statusDetail("References", target.referencesStatus),
+    statusDetail("Diagnostics", target.diagnosticsStatus),
+    statusDetail("Definitions", target.definitionStatus),
+    statusDetail("Completions", target.completionsStatus),
+  ];
+  if (target.recommendation) {
+    details.push({
+      kind: "detail",
+      label: target.recommendation,
+      icon: new ThemeIcon("lightbulb"),
+    });
+  }
+  return details;
+}
+
+function statusDetail(label: string, status: string | undefined): DoctorNode {
+  return {
+    kind: "detail",
+    label,
+    description: statusLabel(status),
+    icon: statusIcon(status),
+  };
+}
+
+type Status = "ok" | "partial" | "unsupported" | "unknown";
+
+/**
+ * Metals renders each status as an icon, either a codicon such as `$(check)`
+ * or an emoji depending on the `icons` initialization option.
+ */
+function parseStatus(status: string | undefined): Status {
+  if (!status) return "unknown";
+  if (/check|✅|✔/.test(status)) return "ok";
+  if (/alert|warning|⚠/.test(status)) return "partial";
+  if (/error|❌|✗|×/.test(status)) return "unsupported";
+  return "unknown";
+}
+
+function statusLabel(status: string | undefined): string {
+  return {
+    ok: "supported",
+    partial: "partially supported",
+    unsupported: "not supported",
+    unknown: "unknown",
+  }[parseStatus(status)];
+}
+
+function statusSymbol(status: string | undefined): string {
+  return { ok: "✓", partial: "⚠", unsupported: "✗", unknown: "?" }[
+    parseStatus(status)
+  ];
+}
+
+function statusIcon(status: string | undefined): ThemeIcon {
+  return new ThemeIcon(
+    {
+      ok: "pass",
+      partial: "warning",
+      unsupported: "error",
+      unknown: "question",
+    }[parseStatus(status)]
+  );
+}
+
+function worstStatus(target: DoctorTargetInfo): string | undefined {
+  const statuses = [
+    target.referencesStatus,
+    target.diagnosticsStatus,
+    target.definitionStatus,
+    target.completionsStatus,
+  ].filter((status) => status !== undefined);
+  const order: Status[] = ["unsupported", "partial", "ok"];
+  for (const status of order) {
+    const found = statuses.find((s) => parseStatus(s) === status);
+    if (found) return found;
+  }
+  return undefined;
+}
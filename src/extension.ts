@@ -10,22 +10,21 @@ import {
   commands,
   CodeLensProvider,
   EventEmitter,
-  StatusBarAlignment,
   ProgressLocation,
   IndentAction,
   languages,
-  WebviewPanel,
   ViewColumn,
   OutputChannel,
   Uri,
   Range,
-  DecorationRangeBehavior,
-  DecorationOptions,
   Position,
-  TextEditorDecorationType,
   TextEditor,
   TextEditorEdit,
   ConfigurationTarget,
+  WorkspaceFolder,
+  Disposable,
+  DocumentFilter,
+  RelativePattern,
 } from "vscode";
 import {
   LanguageClient,
@@ -57,6 +56,7 @@ import {
   ExecuteClientCommand,
   MetalsOpenWindowParams,
   MetalsStatus,
+  MetalsTreeViewDidChange,
   MetalsDidFocus,
   MetalsWindowStateDidChange,
   MetalsInputBox,
@@ -64,40 +64,123 @@ import {
 } from "metals-languageclient";
 import * as metalsLanguageClient from "metals-languageclient";
 import { startTreeView } from "./treeview";
+import { startPackagesActions } from "./packages-actions";
+import { startClassViewer } from "./class-viewer";
+import {
+  dependencySourceUri,
+  jarSourcesMiddleware,
+  startJarSources,
+} from "./jar-sources";
 import * as scalaDebugger from "./scalaDebugger";
 import {
   DecorationTypeDidChange,
   DecorationsRangesDidChange,
 } from "./decoration-protocol";
 import { clearTimeout } from "timers";
-
-const outputChannel = window.createOutputChannel("Metals");
+import { WorkspaceClients, WorkspaceLanguageClient } from "./workspace-clients";
+import { startTestExplorer } from "./test-explorer";
+import {
+  StacktraceHistory,
+  startStacktraceHistory,
+  showStacktraceCommand,
+  stacktraceHistoryViewId,
+} from "./stacktrace-history";
+import { startWorksheetOutput, WorksheetOutput } from "./worksheet-output";
+import { MetalsDecorations } from "./decorations";
+import { Doctor, doctorViewId, startDoctor } from "./doctor";
+import { createDiagnosticBundle } from "./diagnostic-bundle";
+import { newScalaFile } from "./file-templates";
+import { ClientCommandRegistry, isRecord } from "./client-commands";
+import {
+  AmmoniteView,
+  ammoniteViewId,
+  startAmmoniteView,
+} from "./ammonite-view";
+import {
+  startWorksheetsView,
+  WorksheetsView,
+  worksheetsViewId,
+} from "./worksheets-view";
+import {
+  newProjectFromTemplate,
+  pickProjectTemplate,
+} from "./project-templates";
+import {
+  CompilationDashboard,
+  startCompilationDashboard,
+} from "./compilation-dashboard";
+import { pickJavaHome } from "./java-homes";
+import {
+  CompilationFinishedEvent,
+  createApi,
+  MetalsApi,
+  ServerStartedEvent,
+} from "./api";
+import { MetalsStatusBar } from "./status-bar";
+import { ServerCrashRecovery } from "./crash-recovery";
+import { MetalsLogs, startLogViewer } from "./log-viewer";
+import {
+  bundleClasspath,
+  lastResolvedClasspath,
+  saveResolvedClasspath,
+} from "./server-bundle";
+
+const logs = new MetalsLogs();
+const outputChannel = logs.wrap(window.createOutputChannel("Metals"), "client");
+const clientCommands = new ClientCommandRegistry(outputChannel);
+const serverStartedEmitter = new EventEmitter<ServerStartedEvent>();
+const compilationFinishedEmitter = new EventEmitter<CompilationFinishedEvent>();
 const openSettingsAction = "Open settings";
 const openSettingsCommand = "workbench.action.openSettings";
+const outputChannels: Map<string, OutputChannel> = new Map();
 let treeViews: MetalsTreeViews | undefined;
-let currentClient: LanguageClient | undefined;
-
-let worksheetDecorationType: TextEditorDecorationType = window.createTextEditorDecorationType(
-  {
-    isWholeLine: true,
-    rangeBehavior: DecorationRangeBehavior.OpenClosed,
-  }
-);
-
-let decorationType: TextEditorDecorationType = window.createTextEditorDecorationType(
-  {
-    rangeBehavior: DecorationRangeBehavior.OpenClosed,
-  }
-);
+let treeViewsClient: LanguageClient | undefined;
+const clients = new WorkspaceClients();
+const crashRecoveries: Map<string, ServerCrashRecovery> = new Map();
+let stacktraceHistory: StacktraceHistory | undefined;
+let worksheetOutput: WorksheetOutput | undefined;
+let doctor: Doctor | undefined;
+let compilationDashboard: CompilationDashboard | undefined;
+let worksheetsView: WorksheetsView | undefined;
+let ammoniteView: AmmoniteView | undefined;
+// The Java home of the running servers, undefined until Metals is launched.
+let currentJavaHome: string | undefined;
+// The `metals.javaHome` setting the last time it changed, to tell whether it's
+// the setting that changed.
+let configuredJavaHome = workspace
+  .getConfiguration("metals")
+  .get<string>("javaHome");
+
+const decorations = new MetalsDecorations();
 
 const config = workspace.getConfiguration("metals");
 
-export async function activate(context: ExtensionContext) {
+export function activate(context: ExtensionContext): MetalsApi {
   detectLaunchConfigurationChanges();
   checkServerVersion();
   configureSettingsDefaults();
+  registerCommand(context, "metals.select-java-home", () =>
+    selectJavaHome(context)
+  );
+  startLogViewer(context, logs);
+  registerCommand(context, "metals.create-diagnostic-bundle", () =>
+    createDiagnosticBundle(context, {
+      javaHome: () => currentJavaHome,
+      doctorResults: (folder) => doctor?.resultsOf(folder),
+      recentLogs: (minutes) => logs.recent(minutes),
+    })
+  );
+
+  const api = createApi(
+    clients,
+    clientCommands,
+    serverStartedEmitter.event,
+    compilationFinishedEmitter.event
+  );
 
-  return window.withProgress(
+  // The API is returned right away, the extensions using it shouldn't wait
+  // for Metals to be downloaded and started.
+  window.withProgress(
     {
       location: ProgressLocation.Window,
       title: `Starting Metals server...`,
@@ -109,22 +192,32 @@ export async function activate(context: ExtensionContext) {
         const javaHome = await getJavaHome(
           workspace.getConfiguration("metals").get("javaHome")
         );
-        return fetchAndLaunchMetals(context, javaHome);
+        return fetchAndLaunchAllMetals(context, javaHome);
       } catch (err) {
         outputChannel.appendLine(err);
         showMissingJavaMessage();
       }
     }
   );
+  return api;
 }
 
 export function deactivate(): Thenable<void> | undefined {
-  return currentClient?.stop();
+  return Promise.all(clients.all().map((client) => client.stop()))
+    .then(() =>
+      Promise.all(
+        Array.from(crashRecoveries.values()).map((recovery) =>
+          recovery.stopServer()
+        )
+      )
+    )
+    .then(() => undefined);
 }
 
 function showMissingJavaMessage(): Thenable<void> {
   const installJava8Action = "Install Java (JDK 8)";
   const installJava11Action = "Install Java (JDK 11)";
+  const selectJavaHomeAction = "Select Java Home";
 
   const message =
     "Unable to find a Java 8 or Java 11 installation on this computer. " +
@@ -136,12 +229,17 @@ function showMissingJavaMessage(): Thenable<void> {
   return window
     .showErrorMessage(
       message,
+      selectJavaHomeAction,
       openSettingsAction,
       installJava8Action,
       installJava11Action
     )
     .then((choice) => {
       switch (choice) {
+        case selectJavaHomeAction: {
+          commands.executeCommand("metals.select-java-home");
+          break;
+        }
         case openSettingsAction: {
           commands.executeCommand(openSettingsCommand);
           break;
@@ -178,14 +276,119 @@ function showMissingJavaMessage(): Thenable<void> {
     });
 }
 
-function fetchAndLaunchMetals(context: ExtensionContext, javaHome: string) {
+function fetchAndLaunchAllMetals(context: ExtensionContext, javaHome: string) {
   if (!workspace.workspaceFolders) {
     outputChannel.appendLine(
       `Metals will not start because you've opened a single file and not a project directory.`
     );
     return;
   }
-  const dottyIde = checkDottyIde(workspace.workspaceFolders[0]?.uri.fsPath);
+
+  currentJavaHome = javaHome;
+  registerCommands(context);
+  registerClientCommands(context);
+  stacktraceHistory = startStacktraceHistory(context, clients);
+  worksheetOutput = startWorksheetOutput(context);
+  doctor = startDoctor(context, clients);
+  compilationDashboard = startCompilationDashboard(context, clients);
+  worksheetsView = startWorksheetsView(context, clients);
+  ammoniteView = startAmmoniteView(context, clients);
+  context.subscriptions.push(
+    doctor.onDidUpdate(({ folder, targets }) =>
+      ammoniteView?.updateBuildTargets(folder, targets)
+    )
+  );
+  startPackagesActions(context, () => treeViewsClient);
+  startClassViewer(context, clients, () => currentJavaHome);
+  startJarSources(context);
+  decorations
+    .register()
+    .forEach((disposable) => context.subscriptions.push(disposable));
+  scalaDebugger
+    .initialize(outputChannel, clients)
+    .forEach((disposable) => context.subscriptions.push(disposable));
+
+  context.subscriptions.push(
+    workspace.onDidChangeWorkspaceFolders((event) => {
+      event.removed.forEach((folder) => {
+        crashRecoveries.delete(folder.uri.toString());
+        clients.remove(folder);
+      });
+      event.added.forEach((folder) =>
+        fetchAndLaunchMetals(context, currentJavaHome ?? javaHome, folder)
+      );
+    })
+  );
+
+  return Promise.all(
+    workspace.workspaceFolders.map((folder) =>
+      fetchAndLaunchMetals(context, javaHome, folder)
+    )
+  );
+}
+
+function selectJavaHome(context: ExtensionContext): Thenable<unknown> {
+  const configured = workspace
+    .getConfiguration("metals")
+    .get<string>("javaHome");
+  return pickJavaHome(currentJavaHome ?? configured).then((javaHome) => {
+    if (!javaHome) return;
+    // The servers are relaunched before the setting is saved, so that the
+    // change of the setting doesn't ask to reload the window.
+    const relaunched = relaunchAllMetals(context, javaHome);
+    return workspace
+      .getConfiguration("metals")
+      .update("javaHome", javaHome, ConfigurationTarget.Workspace)
+      .then(
+        () => relaunched,
+        (error) => {
+          window.showErrorMessage(`Could not save the Java home: ${error}`);
+          return relaunched;
+        }
+      );
+  });
+}
+
+// Restarts the server of every workspace folder with another Java home.
+function relaunchAllMetals(context: ExtensionContext, javaHome: string) {
+  if (!currentJavaHome) {
+    commands.executeCommand("setContext", "metals:enabled", true);
+    return fetchAndLaunchAllMetals(context, javaHome);
+  }
+  currentJavaHome = javaHome;
+  const folders = workspace.workspaceFolders || [];
+  return Promise.all(folders.map((folder) => clients.remove(folder))).then(() =>
+    Promise.all(
+      folders.map((folder) => fetchAndLaunchMetals(context, javaHome, folder))
+    )
+  );
+}
+
+function metalsName(folder: WorkspaceFolder): string {
+  const folders = workspace.workspaceFolders || [];
+  return folders.length > 1 ? `Metals (${folder.name})` : "Metals";
+}
+
+// The server of each workspace folder logs to its own output channel, except
+// in single-folder workspaces where the plain "Metals" channel is used.
+function folderOutputChannel(folder: WorkspaceFolder): OutputChannel {
+  const name = metalsName(folder);
+  if (name === "Metals") return outputChannel;
+  let channel = outputChannels.get(name);
+  if (!channel) {
+    channel = logs.wrap(window.createOutputChannel(name), "client");
+    outputChannels.set(name, channel);
+  }
+  return channel;
+}
+
+function fetchAndLaunchMetals(
+  context: ExtensionContext,
+  javaHome: string,
+  folder: WorkspaceFolder
+) {
+  const outputChannel = folderOutputChannel(folder);
+  const dottyIde = checkDottyIde(folder.uri.fsPath);
   if (dottyIde.enabled) {
     outputChannel.appendLine(
       `Metals will not start since Dotty is enabled for this workspace. ` +
@@ -209,12 +412,45 @@ function fetchAndLaunchMetals(context: ExtensionContext, javaHome: string) {
   const customRepositories = config.get<string[]>("customRepositories")!;
 
   const javaConfig = getJavaConfig({
-    workspaceRoot: workspace.workspaceFolders[0]?.uri.fsPath,
+    workspaceRoot: folder.uri.fsPath,
     javaHome,
     customRepositories,
     extensionPath: context.extensionPath,
   });
 
+  const launch = (classpath: string) =>
+    launchMetals(
+      outputChannel,
+      context,
+      classpath,
+      serverProperties,
+      javaConfig,
+      folder
+    );
+
+  const serverBundle = config.get<string>("serverBundle")?.trim();
+  if (serverBundle) {
+    outputChannel.appendLine(`Metals server bundle: ${serverBundle}`);
+    return bundleClasspath(serverBundle).then(launch, (reason) => {
+      const message = reason instanceof Error ? reason.message : `${reason}`;
+      outputChannel.appendLine(
+        "Installing Metals from the server bundle failed with the following:"
+      );
+      outputChannel.appendLine(message);
+      outputChannel.show();
+      window
+        .showErrorMessage(
+          `Failed to install Metals from the server bundle '${serverBundle}': ${message}`,
+          openSettingsAction
+        )
+        .then((choice) => {
+          if (choice === openSettingsAction) {
+            commands.executeCommand(openSettingsCommand);
+          }
+        });
+    });
+  }
+
   const fetchProcess = fetchMetals({
     serverVersion,
     serverProperties,
@@ -222,16 +458,23 @@ function fetchAndLaunchMetals(context: ExtensionContext, javaHome: string) {
   });
 
   const title = `Downloading Metals v${serverVersion}`;
-  return trackDownloadProgress(title, outputChannel, fetchProcess).then(
-    (classpath) => {
-      return launchMetals(
-        outputChannel,
-        context,
-        classpath,
-        serverProperties,
-        javaConfig
-      );
-    },
+  return trackDownloadProgress(
+    title,
+    logs.wrap(outputChannel, "download"),
+    fetchProcess
+  ).then(
+    (classpath) =>
+      // Only a classpath that launched Metals is reused offline.
+      launch(classpath).then((launched) => {
+        if (!launched) return;
+        saveResolvedClasspath(context, serverVersion, classpath).catch(
+          (error) => {
+            outputChannel.appendLine(
+              `Could not save the Metals classpath for offline use: ${error}`
+            );
+          }
+        );
+      }),
     (reason) => {
       if (reason instanceof Error) {
         outputChannel.appendLine(
@@ -239,36 +482,49 @@ function fetchAndLaunchMetals(context: ExtensionContext, javaHome: string) {
         );
         outputChannel.appendLine(reason.message);
       }
-      const msg = (() => {
-        const proxy =
-          `See https://scalameta.org/metals/docs/editors/vscode.html#http-proxy for instructions ` +
-          `if you are using an HTTP proxy.`;
-        if (process.env.FLATPAK_SANDBOX_DIR) {
-          return (
-            `Failed to download Metals. It seems you are running Visual Studio Code inside the ` +
-            `Flatpak sandbox, which is known to interfere with the download of Metals. ` +
-            `Please, try running Visual Studio Code without Flatpak.`
-          );
-        } else if (serverVersion === defaultServerVersion) {
-          return (
-            `Failed to download Metals, make sure you have an internet connection and ` +
-            `the Java Home '${javaHome}' is valid. You can configure the Java Home in the settings.` +
-            proxy
+      // Metals may still be in the Coursier cache when the network is down.
+      return lastResolvedClasspath(context, serverVersion).then((resolved) => {
+        if (resolved) {
+          const date = new Date(resolved.timestamp).toLocaleString();
+          outputChannel.appendLine(
+            `Launching Metals v${serverVersion} with the classpath resolved on ${date}`
           );
-        } else {
-          return (
-            `Failed to download Metals, make sure you have an internet connection, ` +
-            `the Metals version '${serverVersion}' is correct and the Java Home '${javaHome}' is valid. ` +
-            `You can configure the Metals version and Java Home in the settings.` +
-            proxy
+          window.showWarningMessage(
+            `Failed to download Metals, launching the Metals v${serverVersion} resolved on ${date} instead.`
           );
+          return launch(resolved.classpath);
         }
-      })();
-      outputChannel.show();
-      window.showErrorMessage(msg, openSettingsAction).then((choice) => {
-        if (choice === openSettingsAction) {
-          commands.executeCommand(openSettingsCommand);
-        }
+        const msg = (() => {
+          const proxy =
+            `See https://scalameta.org/metals/docs/editors/vscode.html#http-proxy for instructions ` +
+            `if you are using an HTTP proxy.`;
+          if (process.env.FLATPAK_SANDBOX_DIR) {
+            return (
+              `Failed to download Metals. It seems you are running Visual Studio Code inside the ` +
+              `Flatpak sandbox, which is known to interfere with the download of Metals. ` +
+              `Please, try running Visual Studio Code without Flatpak.`
+            );
+          } else if (serverVersion === defaultServerVersion) {
+            return (
+              `Failed to download Metals, make sure you have an internet connection and ` +
+              `the Java Home '${javaHome}' is valid. You can configure the Java Home in the settings.` +
+              proxy
+            );
+          } else {
+            return (
+              `Failed to download Metals, make sure you have an internet connection, ` +
+              `the Metals version '${serverVersion}' is correct and the Java Home '${javaHome}' is valid. ` +
+              `You can configure the Metals version and Java Home in the settings.` +
+              proxy
+            );
+          }
+        })();
+        outputChannel.show();
+        window.showErrorMessage(msg, openSettingsAction).then((choice) => {
+          if (choice === openSettingsAction) {
+            commands.executeCommand(openSettingsCommand);
+          }
+        });
       });
     }
   );
@@ -283,8 +539,14 @@ function launchMetals(
   context: ExtensionContext,
   metalsClasspath: string,
   serverProperties: string[],
-  javaConfig: JavaConfig
-) {
+  javaConfig: JavaConfig,
+  folder: WorkspaceFolder,
+  crashRecovery: ServerCrashRecovery = new ServerCrashRecovery(
+    metalsName(folder),
+    logs.wrap(outputChannel, "server"),
+    folder.uri.fsPath
+  )
+): Promise<boolean> {
   // Make editing Scala docstrings slightly nicer.
   enableScaladocIndentation();
 
@@ -305,7 +567,7 @@ function launchMetals(
     decorationProvider: true,
     inlineDecorationProvider: true,
     debuggingProvider: true,
-    doctorProvider: "html",
+    doctorProvider: "json",
     didFocusProvider: true,
     executeClientCommandProvider: true,
     globSyntax: "vscode",
@@ -319,148 +581,95 @@ function launchMetals(
     treeViewProvider: true,
   };
 
+  // Only handle the documents of this workspace folder, the other folders
+  // have their own server.
+  const documentSelector: DocumentFilter[] = [
+    {
+      scheme: "file",
+      language: "scala",
+      pattern: new RelativePattern(folder, "**/*"),
+    },
+  ];
+
   const clientOptions: LanguageClientOptions = {
-    documentSelector: [{ scheme: "file", language: "scala" }],
+    // The protocol types only allow string patterns, but the selector is only
+    // matched by VS Code, which supports relative patterns.
+    documentSelector: documentSelector as LanguageClientOptions["documentSelector"],
     synchronize: {
       configurationSection: "metals",
     },
     revealOutputChannelOn: RevealOutputChannelOn.Never,
-    outputChannel: outputChannel,
+    outputChannel: crashRecovery.channel(),
+    middleware: jarSourcesMiddleware(clients),
     initializationOptions,
+    workspaceFolder: folder,
+    // Launches a new client after a crash, unless the folder was removed or
+    // its server relaunched in the meantime.
+    errorHandler: crashRecovery.errorHandler(() => {
+      if (clients.get(folder) !== client) return;
+      return clients
+        .remove(folder)
+        .then(() =>
+          launchMetals(
+            outputChannel,
+            context,
+            metalsClasspath,
+            serverProperties,
+            javaConfig,
+            folder,
+            crashRecovery
+          )
+        );
+    }),
   };
 
-  const client = new LanguageClient(
+  const client = new WorkspaceLanguageClient(
     "metals",
-    "Metals",
-    serverOptions,
+    metalsName(folder),
+    crashRecovery.serverOptions(serverOptions),
     clientOptions
   );
 
-  currentClient = client;
-  function registerCommand(command: string, callback: (...args: any[]) => any) {
-    context.subscriptions.push(commands.registerCommand(command, callback));
-  }
-
-  function registerTextEditorCommand(
-    command: string,
-    callback: (
-      textEditor: TextEditor,
-      edit: TextEditorEdit,
-      ...args: any[]
-    ) => any
-  ) {
-    context.subscriptions.push(
-      commands.registerTextEditorCommand(command, callback)
+  // Disposed when the folder is removed from the workspace.
+  const disposables: Disposable[] = [];
+  clients.add(folder, client, disposables);
+  crashRecoveries.set(folder.uri.toString(), crashRecovery);
+  crashRecovery.watch(client);
+
+  const statusBar = new MetalsStatusBar(client, metalsName(folder));
+  disposables.push(
+    statusBar,
+    statusBar.onDidCountCompilations((nodes) =>
+      compilationDashboard?.observe(folder, nodes)
+    ),
+    { dispose: () => compilationDashboard?.remove(folder) }
+  );
+  // The doctor results name the build server.
+  if (doctor) {
+    disposables.push(
+      doctor.onDidUpdate((results) => {
+        if (results.folder !== folder) return;
+        statusBar.setBuildServerName(doctor?.buildServerOf(folder));
+        statusBar.syncBuildServer();
+      })
     );
   }
 
-  registerCommand(
-    "metals.restartServer",
-    restartServer(
-      // NOTE(gabro): this is due to mismatching versions of vscode-languageserver-protocol
-      // which are not trivial to fix, currently
-      // @ts-ignore
-      client,
-      window
-    )
-  );
-
   context.subscriptions.push(client.start());
 
   return client.onReady().then(
     () => {
-      let doctor: WebviewPanel | undefined;
-      let stacktrace: WebviewPanel | undefined;
-
-      function getDoctorPanel(isReload: boolean): WebviewPanel {
-        if (!doctor) {
-          doctor = window.createWebviewPanel(
-            "metals-doctor",
-            "Metals Doctor",
-            ViewColumn.Active,
-            { enableCommandUris: true }
-          );
-          context.subscriptions.push(doctor);
-          doctor.onDidDispose(() => {
-            doctor = undefined;
-          });
-        } else if (!isReload) {
-          doctor.reveal();
-        }
-        return doctor;
-      }
-      function getStacktracePanel(): WebviewPanel {
-        if (!stacktrace) {
-          stacktrace = window.createWebviewPanel(
-            "metals-stacktrace",
-            "Analyze Stacktrace",
-            ViewColumn.Beside,
-            { enableCommandUris: true }
-          );
-          context.subscriptions.push(stacktrace);
-          stacktrace.onDidDispose(() => {
-            stacktrace = undefined;
-          });
-        }
-        stacktrace.reveal();
-        return stacktrace;
-      }
-
-      [
-        ServerCommands.BuildImport,
-        ServerCommands.BuildRestart,
-        ServerCommands.BuildConnect,
-        ServerCommands.BuildDisconnect,
-        ServerCommands.GenerateBspConfig,
-        ServerCommands.BspSwitch,
-        ServerCommands.SourcesScan,
-        ServerCommands.DoctorRun,
-        ServerCommands.CascadeCompile,
-        ServerCommands.CleanCompile,
-        ServerCommands.CancelCompilation,
-        ServerCommands.AmmoniteStart,
-        ServerCommands.AmmoniteStop,
-      ].forEach((command) => {
-        registerCommand("metals." + command, async () =>
-          client.sendRequest(ExecuteCommandRequest.type, { command: command })
-        );
-      });
-
-      let channelOpen = false;
-
-      registerCommand(ClientCommands.FocusDiagnostics, () =>
-        commands.executeCommand("workbench.action.problems.focus")
+      crashRecovery.ready();
+      disposables.push(
+        { dispose: () => doctor?.remove(folder) },
+        { dispose: () => worksheetsView?.remove(folder) },
+        { dispose: () => ammoniteView?.remove(folder) }
       );
-
-      registerCommand(ClientCommands.RunDoctor, () =>
-        commands.executeCommand(ClientCommands.RunDoctor)
-      );
-
-      registerCommand(ClientCommands.ToggleLogs, () => {
-        if (channelOpen) {
-          client.outputChannel.hide();
-          channelOpen = false;
-        } else {
-          client.outputChannel.show(true);
-          channelOpen = true;
-        }
-      });
-
-      registerCommand(ClientCommands.StartDebugSession, (...args: any[]) => {
-        scalaDebugger.start(false, ...args).then((wasStarted) => {
-          if (!wasStarted) {
-            window.showErrorMessage("Debug session not started");
-          }
-        });
-      });
-
-      registerCommand(ClientCommands.StartRunSession, (...args: any[]) => {
-        scalaDebugger.start(true, ...args).then((wasStarted) => {
-          if (!wasStarted) {
-            window.showErrorMessage("Run session not started");
-          }
-        });
-      });
+      worksheetsView?.refreshTargets(folder);
+      ammoniteView?.refresh();
+      ammoniteView
+        ?.sync(folder)
+        .then(() => ammoniteView?.autoStart(window.activeTextEditor));
 
       // should be the compilation of a currently opened file
       // but some race conditions may apply
@@ -471,305 +680,69 @@ function launchMetals(
         provideCodeLenses: () => undefined,
       };
 
-      languages.registerCodeLensProvider(
-        { scheme: "file", language: "scala" },
-        codeLensRefresher
+      disposables.push(
+        languages.registerCodeLensProvider(documentSelector, codeLensRefresher)
       );
 
-      // Handle the metals/executeClientCommand extension notification.
-      client.onNotification(ExecuteClientCommand.type, (params) => {
-        switch (params.command) {
-          case ClientCommands.GotoLocation:
-            const location =
-              params.arguments && (params.arguments[0] as Location);
-            const otherWindow =
-              (params.arguments && (params.arguments[1] as Boolean)) || false;
-            if (location) {
-              gotoLocation(location, otherWindow);
-            }
-            break;
-          case ClientCommands.RefreshModel:
+      disposables.push(
+        ...startTestExplorer(
+          client,
+          folder,
+          metalsName(folder),
+          compilationDoneEmitter.event
+        )
+      );
+
+      disposables.push(
+        clientCommands.register({
+          command: ClientCommands.RefreshModel,
+          arguments: [],
+          folder,
+          handler: () => {
             compilationDoneEmitter.fire();
-            break;
-          case ClientCommands.OpenFolder:
-            const openWindowParams = params
-              .arguments?.[0] as MetalsOpenWindowParams;
-            if (openWindowParams) {
-              commands.executeCommand(
-                "vscode.openFolder",
-                Uri.parse(openWindowParams.uri),
-                openWindowParams.openNewWindow
-              );
-            }
-            break;
-          case "metals-show-stacktrace":
-            const html = params.arguments && params.arguments[0];
-            if (typeof html === "string") {
-              const panel = getStacktracePanel();
-              panel.webview.html = html;
-            }
-            break;
-          case ClientCommands.RunDoctor:
-          case ClientCommands.ReloadDoctor:
-            const isRun = params.command === ClientCommands.RunDoctor;
-            const isReload = params.command === ClientCommands.ReloadDoctor;
-            if (isRun || (doctor && isReload)) {
-              const html = params.arguments && params.arguments[0];
-              if (typeof html === "string") {
-                const panel = getDoctorPanel(isReload);
-                panel.webview.html = html;
-              }
-            }
-            break;
-          case ClientCommands.FocusDiagnostics:
-            commands.executeCommand(ClientCommands.FocusDiagnostics);
-            break;
-          default:
-            outputChannel.appendLine(`unknown command: ${params.command}`);
-        }
+            compilationFinishedEmitter.fire({ folder });
+            statusBar.countCompilations();
+            statusBar.syncBuildServer();
+            ammoniteView?.sync(folder);
+          },
+        })
+      );
 
-        // Ignore other commands since they are less important.
-      });
+      // Handle the metals/executeClientCommand extension notification.
+      client.onNotification(ExecuteClientCommand.type, (params) =>
+        clientCommands.execute(params, { folder, client })
+      );
 
       // The server updates the client with a brief text message about what
       // it is currently doing, for example "Compiling..".
-      const item = window.createStatusBarItem(StatusBarAlignment.Right, 100);
-      item.command = ClientCommands.ToggleLogs;
-      item.hide();
       client.onNotification(MetalsStatus.type, (params) => {
-        item.text = params.text;
-        if (params.show) {
-          item.show();
-        } else if (params.hide) {
-          item.hide();
-        }
-        if (params.tooltip) {
-          item.tooltip = params.tooltip;
-        }
-        if (params.command) {
-          item.command = params.command;
-          commands.getCommands().then((values) => {
-            if (params.command && values.includes(params.command)) {
-              registerCommand(params.command, () => {
-                client.sendRequest(ExecuteCommandRequest.type, {
-                  command: params.command!,
-                });
-              });
-            }
-          });
-        } else {
-          item.command = undefined;
-        }
+        statusBar.onStatus(params);
+        compilationDashboard?.onStatus(folder, params.text);
       });
 
-      registerTextEditorCommand(
-        `metals.${ServerCommands.GotoSuperMethod}`,
-        (editor, _edit, _args) => {
-          client.sendRequest(ExecuteCommandRequest.type, {
-            command: ServerCommands.GotoSuperMethod,
-            arguments: [
-              {
-                document: editor.document.uri.toString(true),
-                position: editor.selection.start,
-              },
-            ],
-          });
-        }
-      );
-
-      registerTextEditorCommand(
-        `metals.${ServerCommands.SuperMethodHierarchy}`,
-        (editor, _edit, _args) => {
-          client.sendRequest(ExecuteCommandRequest.type, {
-            command: ServerCommands.SuperMethodHierarchy,
-            arguments: [
-              {
-                document: editor.document.uri.toString(true),
-                position: editor.selection.start,
-              },
-            ],
-          });
-        }
-      );
-
-      registerCommand(`metals.${ServerCommands.AnalyzeStacktrace}`, () => {
-        env.clipboard.readText().then((clip) => {
-          if (clip.trim().length < 1) {
-            window.showInformationMessage(
-              "Clipboard appears to be empty, copy stacktrace to clipboard and retry this command"
+      disposables.push(
+        window.onDidChangeActiveTextEditor((editor) => {
+          if (
+            editor &&
+            isSupportedLanguage(editor.document.languageId) &&
+            clients.forUri(editor.document.uri) === client
+          ) {
+            client.sendNotification(
+              MetalsDidFocus.type,
+              editor.document.uri.toString()
             );
-          } else {
-            client.sendRequest(ExecuteCommandRequest.type, {
-              command: "analyze-stacktrace",
-              arguments: [clip],
-            });
           }
-        });
-      });
-
-      registerTextEditorCommand(
-        `metals.${ServerCommands.CopyWorksheetOutput}`,
-        (editor, _edit, _args) => {
-          const uri = editor.document.uri;
-          if (uri.toString().endsWith("worksheet.sc")) {
-            client
-              .sendRequest(ExecuteCommandRequest.type, {
-                command: ServerCommands.CopyWorksheetOutput,
-                arguments: [uri.toString()],
-              })
-              .then((result) => {
-                window.showInformationMessage(result);
-                if (result.value) {
-                  env.clipboard.writeText(result.value);
-                  window.showInformationMessage(
-                    "Copied worksheet evaluation to clipboard."
-                  );
-                }
-              });
-          } else {
-            window.showWarningMessage(
-              "You must be in a worksheet to use this feature."
-            );
-          }
-        }
+        })
       );
 
-      registerCommand("metals.goto-path-uri", (...args) => {
-        const uri = args[0] as string;
-        const line = args[1] as number;
-        const otherWindow = args[2] as boolean;
-        const pos = new Position(line, 0);
-        const range = new Range(pos, pos);
-        const location = Location.create(uri, range);
-        gotoLocation(location, otherWindow);
-      });
-
-      registerCommand(`metals.${ServerCommands.ResetChoice}`, (args = []) => {
-        client.sendRequest(ExecuteCommandRequest.type, {
-          command: ServerCommands.ResetChoice,
-          arguments: args,
-        });
-      });
-
-      registerCommand(`metals.${ServerCommands.Goto}`, (args) => {
-        client.sendRequest(ExecuteCommandRequest.type, {
-          command: ServerCommands.Goto,
-          arguments: args,
-        });
-      });
-
-      registerCommand("metals.reveal-active-file", () => {
-        if (treeViews) {
-          const editor = window.visibleTextEditors.find((e) =>
-            isSupportedLanguage(e.document.languageId)
-          );
-          if (editor) {
-            const pos = editor.selection.start;
-            const params: TextDocumentPositionParams = {
-              textDocument: { uri: editor.document.uri.toString() },
-              position: { line: pos.line, character: pos.character },
-            };
-            return window.withProgress(
-              {
-                location: ProgressLocation.Window,
-                title: "Metals: Reveal Active File in Side Bar",
-              },
-              (progress) => {
-                return client
-                  .sendRequest(MetalsTreeViewReveal.type, params)
-                  .then((result) => {
-                    progress.report({ increment: 100 });
-                    if (treeViews) {
-                      treeViews.reveal(result);
-                    }
-                  });
-              }
-            );
-          }
-        } else {
-          window.showErrorMessage(
-            "This version of Metals does not support tree views."
-          );
-        }
-      });
-
-      registerCommand(ClientCommands.EchoCommand, (arg: string) => {
-        client.sendRequest(ExecuteCommandRequest.type, {
-          command: arg,
-        });
-      });
-
-      registerCommand("metals.toggle-implicit-conversions-and-classes", () => {
-        toggleBooleanWorkspaceSetting("showImplicitConversionsAndClasses");
-      });
-
-      registerCommand("metals.toggle-implicit-parameters", () => {
-        toggleBooleanWorkspaceSetting("showImplicitArguments");
-      });
-
-      registerCommand("metals.toggle-show-inferred-type", () => {
-        toggleBooleanWorkspaceSetting("showInferredType");
-      });
-
-      registerCommand(
-        `metals.${ServerCommands.NewScalaFile}`,
-        async (directory: Uri) => {
-          return client.sendRequest(ExecuteCommandRequest.type, {
-            command: ServerCommands.NewScalaFile,
-            arguments: [directory?.toString()],
+      disposables.push(
+        window.onDidChangeWindowState((windowState) => {
+          client.sendNotification(MetalsWindowStateDidChange.type, {
+            focused: windowState.focused,
           });
-        }
+        })
       );
 
-      registerCommand(`metals.new-scala-worksheet`, async () => {
-        const sendRequest = (args: Array<string | undefined>) => {
-          return client.sendRequest(ExecuteCommandRequest.type, {
-            command: ServerCommands.NewScalaFile,
-            arguments: args,
-          });
-        };
-        const currentUri = window.activeTextEditor?.document.uri;
-        if (currentUri != null) {
-          const parentUri = path.dirname(currentUri.toString());
-          const name = path.basename(parentUri);
-          const parentPath = Uri.parse(parentUri).fsPath;
-          const fullPath = path.join(parentPath, `${name}.worksheet.sc`);
-          if (fs.existsSync(fullPath)) {
-            window.showWarningMessage(
-              `A worksheet ${name}.worksheet.sc already exists, opening it instead`
-            );
-            return workspace
-              .openTextDocument(fullPath)
-              .then((textDocument) => window.showTextDocument(textDocument));
-          } else {
-            return sendRequest([parentUri, name, "worksheet"]);
-          }
-        } else {
-          return sendRequest([undefined, undefined, "worksheet"]);
-        }
-      });
-
-      registerCommand(`metals.${ServerCommands.NewScalaProject}`, async () => {
-        return client.sendRequest(ExecuteCommandRequest.type, {
-          command: ServerCommands.NewScalaProject,
-        });
-      });
-
-      window.onDidChangeActiveTextEditor((editor) => {
-        if (editor && isSupportedLanguage(editor.document.languageId)) {
-          client.sendNotification(
-            MetalsDidFocus.type,
-            editor.document.uri.toString()
-          );
-        }
-      });
-
-      window.onDidChangeWindowState((windowState) => {
-        client.sendNotification(MetalsWindowStateDidChange.type, {
-          focused: windowState.focused,
-        });
-      });
-
       client.onRequest(MetalsInputBox.type, (options, requestToken) => {
         return window
           .showInputBox(options, requestToken)
@@ -842,58 +815,464 @@ function launchMetals(
           });
         });
       });
-      // NOTE(olafur): `require("./package.json")` should work in theory but it
-      // seems to read a stale version of package.json when I try it.
-      const packageJson = JSON.parse(
-        fs.readFileSync(
-          path.join(context.extensionPath, "package.json"),
-          "utf8"
-        )
-      );
-      const viewIds = packageJson.contributes.views["metals-explorer"].map(
-        (view: { id: string }) => view.id
+      // Replaced by the tree views when they show the build of this server.
+      client.onNotification(MetalsTreeViewDidChange.type, (params) =>
+        statusBar.onTreeViewDidChange(params.nodes)
       );
-      treeViews = startTreeView(client, outputChannel, context, viewIds);
-      context.subscriptions.concat(treeViews.disposables);
-      scalaDebugger
-        .initialize(outputChannel)
-        .forEach((disposable) => context.subscriptions.push(disposable));
+      // NOTE: the tree views can only have one data provider, they show the
+      // build of the first workspace folder whose server is ready.
+      if (!treeViews) {
+        // NOTE(olafur): `require("./package.json")` should work in theory but it
+        // seems to read a stale version of package.json when I try it.
+        const packageJson = JSON.parse(
+          fs.readFileSync(
+            path.join(context.extensionPath, "package.json"),
+            "utf8"
+          )
+        );
+        // The views filled by the extension itself aren't known to the server.
+        const viewIds = packageJson.contributes.views["metals-explorer"]
+          .map((view: { id: string }) => view.id)
+          .filter(
+            (id: string) =>
+              ![
+                stacktraceHistoryViewId,
+                doctorViewId,
+                worksheetsViewId,
+                ammoniteViewId,
+              ].includes(id)
+          );
+        treeViews = startTreeView(
+          client,
+          outputChannel,
+          context,
+          viewIds,
+          (nodes) => statusBar.onTreeViewDidChange(nodes)
+        );
+        treeViewsClient = client;
+        context.subscriptions.concat(treeViews.disposables);
+        // The next server that is ready takes over the tree views.
+        disposables.push({
+          dispose: () => {
+            treeViews?.disposables.forEach((disposable) =>
+              disposable.dispose()
+            );
+            treeViews = undefined;
+            treeViewsClient = undefined;
+          },
+        });
+      }
       client.onNotification(DecorationTypeDidChange.type, (options) => {
-        decorationType = window.createTextEditorDecorationType(options);
+        decorations.setServerOptions(options);
       });
       client.onNotification(DecorationsRangesDidChange.type, (params) => {
-        const editors = window.visibleTextEditors;
-        const path = Uri.parse(params.uri).toString();
-        const editor = editors.find(
-          (editor) => editor.document.uri.toString() == path
-        );
-        if (editor) {
-          const options = params.options.map<DecorationOptions>((o) => {
-            return {
-              range: new Range(
-                new Position(o.range.start.line, o.range.start.character),
-                new Position(o.range.end.line, o.range.end.character)
-              ),
-              hoverMessage: o.hoverMessage?.value,
-              renderOptions: o.renderOptions,
-            };
-          });
-          if (params.uri.endsWith(".worksheet.sc"))
-            editor.setDecorations(worksheetDecorationType, options);
-          else editor.setDecorations(decorationType, options);
-        } else {
-          outputChannel.appendLine(
-            `Ignoring decorations for non-active document '${params.uri}'.`
-          );
+        if (params.uri.endsWith(".worksheet.sc")) {
+          worksheetOutput?.update(params);
+          worksheetsView?.evaluated(Uri.parse(params.uri));
         }
+        decorations.publish(params);
       });
+      serverStartedEmitter.fire({ folder });
+      return true;
     },
     (reason) => {
       if (reason instanceof Error) {
         outputChannel.appendLine("Could not launch Metals Language Server:");
         outputChannel.appendLine(reason.message);
       }
+      return false;
+    }
+  );
+}
+
+function registerCommand(
+  context: ExtensionContext,
+  command: string,
+  callback: (...args: any[]) => any
+) {
+  context.subscriptions.push(commands.registerCommand(command, callback));
+}
+
+// The commands are shared by the clients of all workspace folders, they are
+// sent to the server of the active editor's folder or of a picked folder.
+function registerCommands(context: ExtensionContext) {
+  function registerClientCommand(
+    command: string,
+    callback: (client: LanguageClient, ...args: any[]) => any
+  ) {
+    registerCommand(context, command, (...args: any[]) =>
+      clients
+        .select()
+        .then((client) => (client ? callback(client, ...args) : undefined))
+    );
+  }
+
+  function registerTextEditorCommand(
+    command: string,
+    callback: (
+      client: LanguageClient,
+      textEditor: TextEditor,
+      edit: TextEditorEdit,
+      ...args: any[]
+    ) => any
+  ) {
+    context.subscriptions.push(
+      commands.registerTextEditorCommand(command, (editor, edit, ...args) =>
+        clients
+          .select(editor.document.uri)
+          .then((client) =>
+            client ? callback(client, editor, edit, ...args) : undefined
+          )
+      )
+    );
+  }
+
+  registerCommand(context, "metals.open-crash-report", () =>
+    clients.pick().then((client) => {
+      const folder = client?.clientOptions.workspaceFolder;
+      const recovery = folder && crashRecoveries.get(folder.uri.toString());
+      return recovery?.openCrashReport();
+    })
+  );
+
+  registerCommand(context, "metals.restartServer", () =>
+    clients.pick().then((client) => {
+      if (client) {
+        restartServer(
+          // NOTE(gabro): this is due to mismatching versions of vscode-languageserver-protocol
+          // which are not trivial to fix, currently
+          // @ts-ignore
+          client,
+          window
+        )();
+      }
+    })
+  );
+
+  [
+    ServerCommands.BuildImport,
+    ServerCommands.BuildRestart,
+    ServerCommands.BuildConnect,
+    ServerCommands.BuildDisconnect,
+    ServerCommands.GenerateBspConfig,
+    ServerCommands.BspSwitch,
+    ServerCommands.SourcesScan,
+    ServerCommands.DoctorRun,
+    ServerCommands.CascadeCompile,
+    ServerCommands.CleanCompile,
+    ServerCommands.CancelCompilation,
+  ].forEach((command) => {
+    registerClientCommand("metals." + command, async (client) =>
+      client.sendRequest(ExecuteCommandRequest.type, { command: command })
+    );
+  });
+
+  let channelOpen = false;
+
+  registerCommand(context, ClientCommands.FocusDiagnostics, () =>
+    commands.executeCommand("workbench.action.problems.focus")
+  );
+
+  registerCommand(context, ClientCommands.RunDoctor, () =>
+    commands.executeCommand(ClientCommands.RunDoctor)
+  );
+
+  registerClientCommand(ClientCommands.ToggleLogs, (client) => {
+    if (channelOpen) {
+      client.outputChannel.hide();
+      channelOpen = false;
+    } else {
+      client.outputChannel.show(true);
+      channelOpen = true;
+    }
+  });
+
+  registerClientCommand(
+    ClientCommands.StartDebugSession,
+    (client, ...args: any[]) => {
+      scalaDebugger.start(client, false, ...args).then((wasStarted) => {
+        if (!wasStarted) {
+          window.showErrorMessage("Debug session not started");
+        }
+      });
+    }
+  );
+
+  registerClientCommand(
+    ClientCommands.StartRunSession,
+    (client, ...args: any[]) => {
+      scalaDebugger.start(client, true, ...args).then((wasStarted) => {
+        if (!wasStarted) {
+          window.showErrorMessage("Run session not started");
+        }
+      });
+    }
+  );
+
+  registerTextEditorCommand(
+    `metals.${ServerCommands.GotoSuperMethod}`,
+    (client, editor, _edit, _args) => {
+      client.sendRequest(ExecuteCommandRequest.type, {
+        command: ServerCommands.GotoSuperMethod,
+        arguments: [
+          {
+            document: editor.document.uri.toString(true),
+            position: editor.selection.start,
+          },
+        ],
+      });
+    }
+  );
+
+  registerTextEditorCommand(
+    `metals.${ServerCommands.SuperMethodHierarchy}`,
+    (client, editor, _edit, _args) => {
+      client.sendRequest(ExecuteCommandRequest.type, {
+        command: ServerCommands.SuperMethodHierarchy,
+        arguments: [
+          {
+            document: editor.document.uri.toString(true),
+            position: editor.selection.start,
+          },
+        ],
+      });
+    }
+  );
+
+  registerTextEditorCommand(
+    `metals.${ServerCommands.CopyWorksheetOutput}`,
+    (client, editor, _edit, _args) => {
+      const uri = editor.document.uri;
+      if (uri.toString().endsWith("worksheet.sc")) {
+        client
+          .sendRequest(ExecuteCommandRequest.type, {
+            command: ServerCommands.CopyWorksheetOutput,
+            arguments: [uri.toString()],
+          })
+          .then((result) => {
+            window.showInformationMessage(result);
+            if (result.value) {
+              env.clipboard.writeText(result.value);
+              window.showInformationMessage(
+                "Copied worksheet evaluation to clipboard."
+              );
+            }
+          });
+      } else {
+        window.showWarningMessage(
+          "You must be in a worksheet to use this feature."
+        );
+      }
+    }
+  );
+
+  registerCommand(context, "metals.goto-path-uri", (...args) => {
+    const uri = args[0] as string;
+    const line = args[1] as number;
+    const otherWindow = args[2] as boolean;
+    const pos = new Position(line, 0);
+    const range = new Range(pos, pos);
+    const location = Location.create(uri, range);
+    gotoLocation(location, otherWindow);
+  });
+
+  registerClientCommand(
+    `metals.${ServerCommands.ResetChoice}`,
+    (client, args = []) => {
+      client.sendRequest(ExecuteCommandRequest.type, {
+        command: ServerCommands.ResetChoice,
+        arguments: args,
+      });
+    }
+  );
+
+  registerClientCommand(`metals.${ServerCommands.Goto}`, (client, args) => {
+    client.sendRequest(ExecuteCommandRequest.type, {
+      command: ServerCommands.Goto,
+      arguments: args,
+    });
+  });
+
+  registerCommand(context, "metals.reveal-active-file", () => {
+    if (treeViews && treeViewsClient) {
+      const editor = window.visibleTextEditors.find((e) =>
+        isSupportedLanguage(e.document.languageId)
+      );
+      // The file is revealed by the server of its workspace folder.
+      const client = editor && clients.forUri(editor.document.uri);
+      if (editor && client) {
+        const pos = editor.selection.start;
+        const params: TextDocumentPositionParams = {
+          textDocument: { uri: editor.document.uri.toString() },
+          position: { line: pos.line, character: pos.character },
+        };
+        return window.withProgress(
+          {
+            location: ProgressLocation.Window,
+            title: "Metals: Reveal Active File in Side Bar",
+          },
+          (progress) => {
+            return client
+              .sendRequest(MetalsTreeViewReveal.type, params)
+              .then((result) => {
+                progress.report({ increment: 100 });
+                if (treeViews) {
+                  treeViews.reveal(result);
+                }
+              });
+          }
+        );
+      }
+    } else {
+      window.showErrorMessage(
+        "This version of Metals does not support tree views."
+      );
+    }
+  });
+
+  registerClientCommand(ClientCommands.EchoCommand, (client, arg: string) => {
+    client.sendRequest(ExecuteCommandRequest.type, {
+      command: arg,
+    });
+  });
+
+  registerCommand(
+    context,
+    "metals.toggle-implicit-conversions-and-classes",
+    () => {
+      toggleBooleanWorkspaceSetting("showImplicitConversionsAndClasses");
+    }
+  );
+
+  registerCommand(context, "metals.toggle-implicit-parameters", () => {
+    toggleBooleanWorkspaceSetting("showImplicitArguments");
+  });
+
+  registerCommand(context, "metals.toggle-show-inferred-type", () => {
+    toggleBooleanWorkspaceSetting("showInferredType");
+  });
+
+  registerCommand(
+    context,
+    `metals.${ServerCommands.NewScalaFile}`,
+    (directory: Uri | undefined) =>
+      newScalaFile(directory, async (args) => {
+        const client = await clients.select(directory);
+        return client?.sendRequest(ExecuteCommandRequest.type, {
+          command: ServerCommands.NewScalaFile,
+          arguments: args,
+        });
+      })
+  );
+
+  registerClientCommand(`metals.new-scala-worksheet`, async (client) => {
+    const sendRequest = (args: Array<string | undefined>) => {
+      return client.sendRequest(ExecuteCommandRequest.type, {
+        command: ServerCommands.NewScalaFile,
+        arguments: args,
+      });
+    };
+    const currentUri = window.activeTextEditor?.document.uri;
+    if (currentUri != null) {
+      const parentUri = path.dirname(currentUri.toString());
+      const name = path.basename(parentUri);
+      const parentPath = Uri.parse(parentUri).fsPath;
+      const fullPath = path.join(parentPath, `${name}.worksheet.sc`);
+      if (fs.existsSync(fullPath)) {
+        window.showWarningMessage(
+          `A worksheet ${name}.worksheet.sc already exists, opening it instead`
+        );
+        return workspace
+          .openTextDocument(fullPath)
+          .then((textDocument) => window.showTextDocument(textDocument));
+      } else {
+        return sendRequest([parentUri, name, "worksheet"]);
+      }
+    } else {
+      return sendRequest([undefined, undefined, "worksheet"]);
     }
+  });
+
+  registerCommand(
+    context,
+    `metals.${ServerCommands.NewScalaProject}`,
+    async () => {
+      const template = await pickProjectTemplate();
+      if (template === "server") {
+        const client = await clients.select();
+        return client?.sendRequest(ExecuteCommandRequest.type, {
+          command: ServerCommands.NewScalaProject,
+        });
+      } else if (template) {
+        const openWindowParams = await newProjectFromTemplate(template);
+        if (openWindowParams) openFolder(openWindowParams);
+      }
+    }
+  );
+}
+
+// The client commands sent by every Metals server.
+function registerClientCommands(context: ExtensionContext): void {
+  context.subscriptions.push(
+    clientCommands.register({
+      command: ClientCommands.GotoLocation,
+      arguments: [
+        { name: "location", type: "object", validate: isLocation },
+        { name: "otherWindow", type: "boolean", optional: true },
+      ],
+      handler: ([location, otherWindow]: [Location, boolean?]) =>
+        gotoLocation(location, otherWindow ?? false),
+    }),
+    clientCommands.register({
+      command: ClientCommands.OpenFolder,
+      arguments: [
+        {
+          name: "params",
+          type: "object",
+          validate: (params) =>
+            isRecord(params) && typeof params.uri === "string",
+        },
+      ],
+      handler: ([params]: [MetalsOpenWindowParams]) => openFolder(params),
+    }),
+    clientCommands.register({
+      command: showStacktraceCommand,
+      arguments: [{ name: "html", type: "string" }],
+      handler: ([html]: [string]) => stacktraceHistory?.show(html),
+    }),
+    ...[ClientCommands.RunDoctor, ClientCommands.ReloadDoctor].map((command) =>
+      clientCommands.register({
+        command,
+        arguments: [{ name: "results", type: "string" }],
+        handler: ([results]: [string], { folder }) =>
+          doctor?.update(folder, results, command === ClientCommands.RunDoctor),
+      })
+    ),
+    clientCommands.register({
+      command: ClientCommands.FocusDiagnostics,
+      arguments: [],
+      handler: () => commands.executeCommand(ClientCommands.FocusDiagnostics),
+    })
+  );
+}
+
+function isLocation(location: unknown): boolean {
+  const hasLine = (position: unknown) =>
+    isRecord(position) && typeof position.line === "number";
+  return (
+    isRecord(location) &&
+    typeof location.uri === "string" &&
+    isRecord(location.range) &&
+    hasLine(location.range.start) &&
+    hasLine(location.range.end)
+  );
+}
+
+function openFolder(params: MetalsOpenWindowParams): Thenable<unknown> {
+  return commands.executeCommand(
+    "vscode.openFolder",
+    Uri.parse(params.uri),
+    params.openNewWindow
   );
 }
 
@@ -915,12 +1294,14 @@ function gotoLocation(location: Location, otherWindow: Boolean): void {
         )
         .pop()?.viewColumn || ViewColumn.Beside;
   }
-  workspace.openTextDocument(Uri.parse(location.uri)).then((textDocument) =>
-    window.showTextDocument(textDocument, {
-      selection: range,
-      viewColumn: vs,
-    })
-  );
+  dependencySourceUri(clients, Uri.parse(location.uri))
+    .then((uri) => workspace.openTextDocument(uri))
+    .then((textDocument) =>
+      window.showTextDocument(textDocument, {
+        selection: range,
+        viewColumn: vs,
+      })
+    );
 }
 
 function trackDownloadProgress(
@@ -1001,14 +1382,23 @@ function enableScaladocIndentation() {
 function detectLaunchConfigurationChanges() {
   metalsLanguageClient.detectLaunchConfigurationChanges(
     workspace,
-    ({ message, reloadWindowChoice, dismissChoice }) =>
+    ({ message, reloadWindowChoice, dismissChoice }) => {
+      const javaHome = workspace
+        .getConfiguration("metals")
+        .get<string>("javaHome");
+      const javaHomeChanged = javaHome !== configuredJavaHome;
+      configuredJavaHome = javaHome;
+      // The servers already run with the Java home, e.g. picked by "Select
+      // Java home".
+      if (javaHomeChanged && javaHome === currentJavaHome) return;
       window
         .showInformationMessage(message, reloadWindowChoice, dismissChoice)
         .then((choice) => {
           if (choice === reloadWindowChoice) {
             commands.executeCommand("workbench.action.reloadWindow");
           }
-        })
+        });
+    }
   );
 }
 
@@ -0,0 +1,195 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import { execFile } from "child_process";
+import { QuickPickItem, Uri, window, workspace, WorkspaceFolder } from "vscode";
+
+("use strict");
+
+interface FileKindPick extends QuickPickItem {
+  kind?: string;
+  template?: string;
+}
+
+interface FileTemplateVariables {
+  package: string;
+  name: string;
+  date: string;
+  year: string;
+  author: string;
+  licenseHeader: string;
+}
+
+const fileTemplatesDirectory = path.join(".metals", "templates");
+const licenseHeaderFile = "license-header.txt";
+
+// The kinds of files created by the Metals server.
+const builtInKinds: FileKindPick[] = [
+  { label: "$(symbol-class) Class", kind: "class" },
+  { label: "$(symbol-class) Case class", kind: "case-class" },
+  { label: "$(symbol-namespace) Object", kind: "object" },
+  { label: "$(symbol-interface) Trait", kind: "trait" },
+  { label: "$(package) Package Object", kind: "package-object" },
+  { label: "$(debug-console) Worksheet", kind: "worksheet" },
+  { label: "$(file-code) Ammonite script", kind: "scala-script" },
+];
+
+/**
+ * Creates a Scala file in `directory`, from one of the templates of
+ * `.metals/templates` or with the Metals server for the built-in kinds.
+ *
+ * `newServerFile` is called with the arguments of the `new-scala-file`
+ * server command.
+ */
+export async function newScalaFile(
+  directory: Uri | undefined,
+  newServerFile: (args: Array<string | undefined>) => Thenable<unknown>
+): Promise<unknown> {
+  const targetDirectory = directory ?? defaultDirectory();
+  const folder =
+    targetDirectory && workspace.getWorkspaceFolder(targetDirectory);
+  const templates = folder ? await listTemplates(folder) : [];
+  if (!targetDirectory || templates.length === 0) {
+    return newServerFile([directory?.toString()]);
+  }
+  const pick = await window.showQuickPick<FileKindPick>(
+    builtInKinds.concat(
+      templates.map((template) => ({
+        label: `$(file-text) ${path.basename(template, ".scala")}`,
+        description: path.join(fileTemplatesDirectory, template),
+        template,
+      }))
+    ),
+    { placeHolder: "Select the kind of file to create" }
+  );
+  if (!pick) return undefined;
+  if (pick.kind) {
+    return newServerFile([targetDirectory.toString(), undefined, pick.kind]);
+  }
+  if (folder && pick.template) {
+    return newFileFromTemplate(folder, targetDirectory, pick.template);
+  }
+}
+
+async function newFileFromTemplate(
+  folder: WorkspaceFolder,
+  directory: Uri,
+  template: string
+): Promise<unknown> {
+  const name = await window.showInputBox({
+    prompt: `Name of the new ${path.basename(template, ".scala")}`,
+    validateInput: (value) =>
+      /^[A-Za-z_$][\w$]*$/.test(value) ? undefined : "Not a valid Scala name",
+  });
+  if (!name) return undefined;
+  const file = path.join(directory.fsPath, `${name}.scala`);
+  if (fs.existsSync(file)) {
+    window.showErrorMessage(`${file} already exists`);
+    return undefined;
+  }
+  const templatesPath = path.join(folder.uri.fsPath, fileTemplatesDirectory);
+  const variables = await templateVariables(folder, directory, name);
+  const content = substitute(
+    await fs.promises.readFile(path.join(templatesPath, template), "utf8"),
+    variables
+  );
+  await fs.promises.writeFile(file, content);
+  const document = await workspace.openTextDocument(file);
+  return window.showTextDocument(document);
+}
+
+async function templateVariables(
+  folder: WorkspaceFolder,
+  directory: Uri,
+  name: string
+): Promise<FileTemplateVariables> {
+  const now = new Date();
+  const pad = (n: number) => `${n}`.padStart(2, "0");
+  const year = `${now.getFullYear()}`;
+  const variables: FileTemplateVariables = {
+    package: await packageOf(directory.fsPath),
+    name,
+    date: `${year}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    year,
+    author: await author(folder),
+    licenseHeader: "",
+  };
+  const licenseHeader = await fs.promises
+    .readFile(
+      path.join(folder.uri.fsPath, fileTemplatesDirectory, licenseHeaderFile),
+      "utf8"
+    )
+    .catch(() => "");
+  variables.licenseHeader = substitute(licenseHeader, variables).trimEnd();
+  return variables;
+}
+
+// `$name$` and the other variables are replaced by their value.
+function substitute(text: string, variables: FileTemplateVariables): string {
+  return text.replace(
+    /\$(package|name|date|year|author|licenseHeader)\$/g,
+    (_, variable: keyof FileTemplateVariables) => variables[variable]
+  );
+}
+
+/**
+ * The package of the other files of the directory, or the path of the
+ * directory relative to its source root, e.g. `src/main/scala`.
+ */
+async function packageOf(directory: string): Promise<string> {
+  const files = await fs.promises.readdir(directory).catch(() => []);
+  for (const file of files.filter((file) => file.endsWith(".scala"))) {
+    const content = await fs.promises
+      .readFile(path.join(directory, file), "utf8")
+      .catch(() => "");
+    const packages: string[] = [];
+    const clause = /^\s*package\s+([\w.]+)\s*$/gm;
+    let match;
+    while ((match = clause.exec(content))) packages.push(match[1]);
+    if (packages.length > 0) return packages.join(".");
+  }
+  const segments = directory.split(/[\\/]/);
+  const sourceRoot = segments.lastIndexOf("scala");
+  if (sourceRoot < 0) return "";
+  return segments
+    .slice(sourceRoot + 1)
+    .filter((segment) => segment)
+    .join(".");
+}
+
+// The git user name of the folder, or the name of the current user.
+function author(folder: WorkspaceFolder): Promise<string> {
+  return new Promise((resolve) =>
+    execFile(
+      "git",
+      ["config", "user.name"],
+      { cwd: folder.uri.fsPath },
+      (error, stdout) =>
+        resolve(!error && stdout.trim() ? stdout.trim() : userName())
+    )
+  );
+}
+
+// Empty when the current user has no entry in the passwd file.
+function userName(): string {
+  try {
+    return os.userInfo().username;
+  } catch (_) {
+    return "";
+  }
+}
+
+function listTemplates(folder: WorkspaceFolder): Promise<string[]> {
+  return fs.promises
+    .readdir(path.join(folder.uri.fsPath, fileTemplatesDirectory))
+    .then((files) => files.filter((file) => file.endsWith(".scala")).sort())
+    .catch(() => []);
+}
+
+function defaultDirectory(): Uri | undefined {
+  const editor = window.activeTextEditor;
+  if (editor?.document.uri.scheme === "file") {
+    return Uri.file(path.dirname(editor.document.uri.fsPath));
+  }
+  return workspace.workspaceFolders?.[0]?.uri;
+}
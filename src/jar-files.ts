@@ -0,0 +1,135 @@
+import * as fs from "fs";
+import * as zlib from "zlib";
+
+("use strict");
+
+// Reads the entries of jar files without extracting them. Only the central
+// directory and the requested entries are read, jars can be large. Zip64
+// archives, which are larger than 4GB, aren't supported.
+
+interface JarEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const endOfCentralDirectorySignature = 0x06054b50;
+const centralDirectorySignature = 0x02014b50;
+const localHeaderSignature = 0x04034b50;
+const stored = 0;
+const deflated = 8;
+
+// The names of the entries of the jar, e.g. `scala/Option.scala`.
+export function listJarEntries(jar: string): Promise<string[]> {
+  return withJar(jar, (handle, size) =>
+    readCentralDirectory(handle, size)
+  ).then((entries) => entries.map((entry) => entry.name));
+}
+
+// The content of an entry of the jar, undefined when there's no such entry.
+export function readJarEntry(
+  jar: string,
+  name: string
+): Promise<Buffer | undefined> {
+  return withJar(jar, (handle, size) =>
+    readCentralDirectory(handle, size).then((entries) => {
+      const entry = entries.find((entry) => entry.name === name);
+      return entry ? readEntry(handle, entry) : undefined;
+    })
+  );
+}
+
+function withJar<T>(
+  jar: string,
+  read: (handle: fs.promises.FileHandle, size: number) => Promise<T>
+): Promise<T> {
+  return fs.promises.open(jar, "r").then((handle) =>
+    handle
+      .stat()
+      .then((stat) => read(handle, stat.size))
+      .finally(() => handle.close())
+  );
+}
+
+function readBytes(
+  handle: fs.promises.FileHandle,
+  position: number,
+  length: number
+): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  return handle
+    .read(buffer, 0, length, position)
+    .then(({ bytesRead }) => buffer.subarray(0, bytesRead));
+}
+
+function readCentralDirectory(
+  handle: fs.promises.FileHandle,
+  size: number
+): Promise<JarEntry[]> {
+  // The end of central directory record is 22 bytes followed by a comment
+  // of at most 65535 bytes.
+  const tailLength = Math.min(size, 22 + 65535);
+  return readBytes(handle, size - tailLength, tailLength).then((tail) => {
+    let end = tail.length - 22;
+    while (
+      end >= 0 &&
+      tail.readUInt32LE(end) !== endOfCentralDirectorySignature
+    )
+      end--;
+    if (end < 0) throw new Error("not a jar file");
+    const count = tail.readUInt16LE(end + 10);
+    const length = tail.readUInt32LE(end + 12);
+    const offset = tail.readUInt32LE(end + 16);
+    return readBytes(handle, offset, length).then((directory) => {
+      const entries: JarEntry[] = [];
+      let position = 0;
+      for (let i = 0; i < count; i++) {
+        if (directory.readUInt32LE(position) !== centralDirectorySignature)
+          throw new Error("corrupted jar file");
+        const nameLength = directory.readUInt16LE(position + 28);
+        const extraLength = directory.readUInt16LE(position + 30);
+        const commentLength = directory.readUInt16LE(position + 32);
+        entries.push({
+          name: directory.toString(
+            "utf8",
+            position + 46,
+            position + 46 + nameLength
+          ),
+          method: directory.readUInt16LE(position + 10),
+          compressedSize: directory.readUInt32LE(position + 20),
+          localHeaderOffset: directory.readUInt32LE(position + 42),
+        });
+        position += 46 + nameLength + extraLength + commentLength;
+      }
+      return entries;
+    });
+  });
+}
+
+function readEntry(
+  handle: fs.promises.FileHandle,
+  entry: JarEntry
+): Promise<Buffer> {
+  return readBytes(handle, entry.localHeaderOffset, 30).then((header) => {
+    if (header.readUInt32LE(0) !== localHeaderSignature)
+      throw new Error(`corrupted jar entry ${entry.name}`);
+    const dataOffset =
+      entry.localHeaderOffset +
+      30 +
+      header.readUInt16LE(26) +
+      header.readUInt16LE(28);
+    return readBytes(handle, dataOffset, entry.compressedSize).then((data) => {
+      switch (entry.method) {
+        case stored:
+          return data;
+        case deflated:
+          return zlib.inflateRawSync(data);
+        default:
+          throw new Error(
+            `unsupported compression method ${entry.method} of ${entry.name}`
+          );
+      }
+    });
+  });
+}
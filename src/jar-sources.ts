@@ -0,0 +1,157 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ExtensionContext,
+  Location,
+  LocationLink,
+  ProviderResult,
+  TextDocumentContentProvider,
+  Uri,
+  workspace,
+} from "vscode";
+import { Middleware } from "vscode-languageclient";
+import { readJarEntry } from "./jar-files";
+import { findLibraryJar } from "./treeview";
+import { WorkspaceClients } from "./workspace-clients";
+
+("use strict");
+
+export const jarScheme = "jar";
+
+// The sources Metals extracts from the jars of the libraries, e.g.
+// `.metals/readonly/dependencies/cats-core_2.13-2.6.0-sources.jar/cats/Eq.scala`.
+const readonlyDependency = /[\\/]\.metals[\\/]readonly[\\/]dependencies[\\/]([^\\/]+\.jar)[\\/](.+)$/;
+
+/**
+ * An entry of a jar, e.g. `scala/Option.scala` in
+ * `jar:file:///cache/scala-library-2.13.5-sources.jar!/scala/Option.scala`.
+ */
+export interface JarEntryUri {
+  jar: string;
+  entry: string;
+}
+
+export function parseJarUri(uri: Uri): JarEntryUri | undefined {
+  if (uri.scheme !== jarScheme) return undefined;
+  const separator = uri.path.indexOf("!/");
+  if (separator < 0) return undefined;
+  return {
+    jar: Uri.parse(uri.path.substring(0, separator)).fsPath,
+    entry: uri.path.substring(separator + 2),
+  };
+}
+
+export function toJarUri({ jar, entry }: JarEntryUri): Uri {
+  return Uri.from({
+    scheme: jarScheme,
+    path: `${Uri.file(jar).toString()}!/${entry}`,
+  });
+}
+
+/**
+ * The library sources read straight from their jars. The documents of
+ * content providers are read-only, unlike the copies of `.metals/readonly`.
+ */
+class JarSourcesProvider implements TextDocumentContentProvider {
+  provideTextDocumentContent(uri: Uri): Promise<string> {
+    const parsed = parseJarUri(uri);
+    if (!parsed) return Promise.reject(new Error(`Invalid jar URI: ${uri}`));
+    return readJarEntry(parsed.jar, parsed.entry).then((bytes) => {
+      if (!bytes) {
+        throw new Error(`${parsed.entry} not found in ${parsed.jar}`);
+      }
+      return bytes.toString("utf8");
+    });
+  }
+}
+
+export function startJarSources(context: ExtensionContext): void {
+  context.subscriptions.push(
+    workspace.registerTextDocumentContentProvider(
+      jarScheme,
+      new JarSourcesProvider()
+    )
+  );
+}
+
+/**
+ * The URI of the source in its jar when `uri` is a copy of the sources of a
+ * library in `.metals/readonly`, and `uri` otherwise. The sources jar is
+ * looked up next to the jar of the library in the Packages view.
+ */
+export function dependencySourceUri(
+  clients: WorkspaceClients,
+  uri: Uri
+): Thenable<Uri> {
+  const readonly =
+    uri.scheme === "file" ? readonlyDependency.exec(uri.fsPath) : null;
+  const client = clients.forUri(uri);
+  if (
+    !readonly ||
+    !client ||
+    !workspace.getConfiguration("metals").get<boolean>("openSourcesFromJars")
+  )
+    return Promise.resolve(uri);
+  const [, sourcesJar, entry] = readonly;
+  const libraryJar = sourcesJar.replace(/-sources\.jar$/, ".jar");
+  return findLibraryJar(client, libraryJar).then(
+    (jar) => {
+      if (!jar) return uri;
+      const candidate = path.join(path.dirname(jar), sourcesJar);
+      return fs.promises.access(candidate).then(
+        () => toJarUri({ jar: candidate, entry: entry.replace(/\\/g, "/") }),
+        () => uri
+      );
+    },
+    () => uri
+  );
+}
+
+type Locations = Location | Location[] | LocationLink[] | null | undefined;
+
+/**
+ * Opens the library sources found by the server, with goto definition, type
+ * definition, implementation and references, from their jars.
+ */
+export function jarSourcesMiddleware(clients: WorkspaceClients): Middleware {
+  function mapped<T extends Locations>(result: ProviderResult<T>): Thenable<T> {
+    return Promise.resolve(result).then(
+      (locations) => mapLocations(clients, locations) as Thenable<T>
+    );
+  }
+  return {
+    provideDefinition: (document, position, token, next) =>
+      mapped(next(document, position, token)),
+    provideTypeDefinition: (document, position, token, next) =>
+      mapped(next(document, position, token)),
+    provideImplementation: (document, position, token, next) =>
+      mapped(next(document, position, token)),
+    provideReferences: (document, position, options, token, next) =>
+      mapped(next(document, position, options, token)),
+  };
+}
+
+function mapLocations(
+  clients: WorkspaceClients,
+  locations: Locations
+): Thenable<Locations> {
+  if (!locations) return Promise.resolve(locations);
+  if (!Array.isArray(locations)) {
+    return dependencySourceUri(clients, locations.uri).then(
+      (uri) => new Location(uri, locations.range)
+    );
+  }
+  const all: (Location | LocationLink)[] = locations;
+  return Promise.all(
+    all.map(
+      (location): Thenable<Location | LocationLink> =>
+        "targetUri" in location
+          ? dependencySourceUri(clients, location.targetUri).then(
+              (targetUri): LocationLink => ({ ...location, targetUri })
+            )
+          : dependencySourceUri(clients, location.uri).then(
+              (uri) => new Location(uri, location.range)
+            )
+    )
+  ).then((mapped) => mapped as Location[] | LocationLink[]);
+}
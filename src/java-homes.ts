@@ -0,0 +1,183 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import { QuickPickItem, Uri, window } from "vscode";
+
+("use strict");
+
+export interface JavaHome {
+  path: string;
+  source: string;
+  version?: string;
+  vendor?: string;
+}
+
+interface JavaHomePick extends QuickPickItem {
+  javaHome?: string;
+}
+
+/**
+ * Lists the JDKs installed on this machine by the usual tools, the first
+ * source listing a JDK wins when several list the same directory.
+ */
+export async function discoverJavaHomes(): Promise<JavaHome[]> {
+  const home = os.homedir();
+  const sources: [string, Promise<string[]>][] = [
+    ["JAVA_HOME", Promise.resolve(envJavaHome())],
+    [
+      "SDKMAN",
+      subdirectories(
+        path.join(
+          process.env.SDKMAN_DIR ?? path.join(home, ".sdkman"),
+          "candidates",
+          "java"
+        )
+      ).then((dirs) => dirs.filter((dir) => path.basename(dir) !== "current")),
+    ],
+    ["jabba", subdirectories(path.join(home, ".jabba", "jdk"))],
+    ["Coursier", subdirectories(coursierJvmDirectory(home))],
+    ["/usr/lib/jvm", subdirectories("/usr/lib/jvm")],
+    [
+      "macOS",
+      subdirectories("/Library/Java/JavaVirtualMachines").then((dirs) =>
+        dirs.map((dir) => path.join(dir, "Contents", "Home"))
+      ),
+    ],
+  ];
+  const seen: Set<string> = new Set();
+  const javaHomes: JavaHome[] = [];
+  for (const [source, directories] of sources) {
+    for (const directory of await directories) {
+      const javaHome = await toJavaHome(directory, source);
+      if (!javaHome) continue;
+      const real = await fs.promises.realpath(javaHome.path);
+      if (seen.has(real)) continue;
+      seen.add(real);
+      javaHomes.push(javaHome);
+    }
+  }
+  return javaHomes;
+}
+
+/**
+ * Asks the user to pick one of the JDKs installed on this machine, or to
+ * browse for another one.
+ */
+export async function pickJavaHome(
+  current: string | undefined
+): Promise<string | undefined> {
+  const browse: JavaHomePick = {
+    label: "$(folder-opened) Browse...",
+    description: "Select another Java home directory",
+  };
+  const picks: Thenable<JavaHomePick[]> = discoverJavaHomes().then(
+    (javaHomes) =>
+      javaHomes
+        .map<JavaHomePick>((javaHome) => ({
+          label: [javaHome.vendor, javaHome.version]
+            .filter((part) => part)
+            .join(" "),
+          description:
+            javaHome.path === current
+              ? `${javaHome.source} (current)`
+              : javaHome.source,
+          detail: javaHome.path,
+          javaHome: javaHome.path,
+        }))
+        .concat(browse)
+  );
+  const pick = await window.showQuickPick(picks, {
+    placeHolder: "Select the JDK used to run Metals in this workspace",
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (!pick) return undefined;
+  if (pick.javaHome) return pick.javaHome;
+  const selected = await window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    defaultUri: current ? Uri.file(current) : undefined,
+    openLabel: "Select Java home",
+  });
+  const directory = selected?.[0]?.fsPath;
+  if (!directory) return undefined;
+  if (await toJavaHome(directory, "")) return directory;
+  window.showErrorMessage(
+    `'${directory}' is not a Java home, it doesn't contain ${path.join(
+      "bin",
+      javaExecutable()
+    )}`
+  );
+  return undefined;
+}
+
+// The JDK in `directory`, with the version and vendor of its `release` file.
+async function toJavaHome(
+  directory: string,
+  source: string
+): Promise<JavaHome | undefined> {
+  if (!(await exists(path.join(directory, "bin", javaExecutable())))) {
+    return undefined;
+  }
+  const release = await fs.promises
+    .readFile(path.join(directory, "release"), "utf8")
+    .catch(() => "");
+  const property = (name: string) => {
+    const match = new RegExp(`^${name}="?([^"\\r\\n]*)"?`, "m").exec(release);
+    return match ? match[1] : undefined;
+  };
+  return {
+    path: directory,
+    source,
+    version: property("JAVA_VERSION") ?? path.basename(directory),
+    vendor: property("IMPLEMENTOR"),
+  };
+}
+
+function envJavaHome(): string[] {
+  return process.env.JAVA_HOME ? [process.env.JAVA_HOME] : [];
+}
+
+function coursierJvmDirectory(home: string): string {
+  switch (process.platform) {
+    case "darwin":
+      return path.join(home, "Library", "Caches", "Coursier", "jvm");
+    case "win32":
+      return path.join(
+        process.env.LOCALAPPDATA ?? path.join(home, "AppData", "Local"),
+        "Coursier",
+        "cache",
+        "jvm"
+      );
+    default:
+      return path.join(
+        process.env.XDG_CACHE_HOME ?? path.join(home, ".cache"),
+        "coursier",
+        "jvm"
+      );
+  }
+}
+
+function javaExecutable(): string {
+  return process.platform === "win32" ? "java.exe" : "java";
+}
+
+function subdirectories(directory: string): Promise<string[]> {
+  return fs.promises
+    .readdir(directory, { withFileTypes: true })
+    .then((entries) =>
+      entries
+        .filter((entry) => entry.isDirectory() || entry.isSymbolicLink())
+        .map((entry) => path.join(directory, entry.name))
+        .sort()
+    )
+    .catch(() => []);
+}
+
+function exists(file: string): Promise<boolean> {
+  return fs.promises.access(file).then(
+    () => true,
+    () => false
+  );
+}
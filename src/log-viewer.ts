@@ -0,0 +1,454 @@
+import {
+  commands,
+  debug,
+  ExtensionContext,
+  OutputChannel,
+  Uri,
+  ViewColumn,
+  WebviewPanel,
+  window,
+  workspace,
+} from "vscode";
+
+("use strict");
+
+export type LogSource = "client" | "server" | "download" | "debug adapter";
+export type LogLevel = "error" | "warn" | "info" | "debug";
+
+export interface LogEntry {
+  id: number;
+  timestamp: number;
+  level: LogLevel;
+  source: LogSource;
+  message: string;
+}
+
+type LogViewerMessage = {
+  command: "export";
+  minutes: number;
+  levels: LogLevel[];
+  sources: LogSource[];
+  search: string;
+};
+
+const maxEntries = 20000;
+// New entries are sent to the log viewer in batches.
+const flushDelayMillis = 200;
+
+// `2021.05.10 12:34:56 INFO  message`, as logged by the Metals server.
+const serverLine = /^(\d{4})\.(\d{2})\.(\d{2}) (\d{2}):(\d{2}):(\d{2}) (ERROR|WARN|WARNING|INFO|DEBUG|TRACE)\s+(.*)$/;
+// `[Error - 12:34:56 PM] message`, as logged by vscode-languageclient.
+const clientLine = /^\[(Error|Warn|Info|Trace)\s*-\s*[^\]]*\]\s?(.*)$/;
+
+/**
+ * An output channel that also records its lines in the Metals logs.
+ */
+class LoggedOutputChannel implements OutputChannel {
+  private partialLine = "";
+
+  constructor(
+    readonly channel: OutputChannel,
+    readonly source: LogSource,
+    readonly logs: MetalsLogs
+  ) {}
+
+  get name(): string {
+    return this.channel.name;
+  }
+
+  append(value: string): void {
+    const lines = (this.partialLine + value).split(/\r?\n/);
+    this.partialLine = lines.pop() ?? "";
+    lines.forEach((line) => this.logs.record(this.source, line));
+    this.channel.append(value);
+  }
+
+  appendLine(value: string): void {
+    this.append(`${value}\n`);
+  }
+
+  clear(): void {
+    this.channel.clear();
+  }
+
+  show(column?: ViewColumn | boolean, preserveFocus?: boolean): void {
+    if (typeof column === "boolean") this.channel.show(column);
+    else this.channel.show(column, preserveFocus);
+  }
+
+  hide(): void {
+    this.channel.hide();
+  }
+
+  dispose(): void {
+    this.channel.dispose();
+  }
+}
+
+/**
+ * The lines written to the Metals output channels and by the debug adapter,
+ * parsed into entries with a level, a timestamp and a source.
+ */
+export class MetalsLogs {
+  private entries: LogEntry[] = [];
+  private nextId = 0;
+  private panel: WebviewPanel | undefined;
+  private pending: LogEntry[] = [];
+  private flushTimeout: NodeJS.Timeout | undefined;
+
+  // Records the lines written to `channel` as coming from `source`.
+  wrap(channel: OutputChannel, source: LogSource): OutputChannel {
+    const raw =
+      channel instanceof LoggedOutputChannel ? channel.channel : channel;
+    return new LoggedOutputChannel(raw, source, this);
+  }
+
+  // The entries of the last `minutes`.
+  recent(minutes: number): LogEntry[] {
+    const since = Date.now() - minutes * 60000;
+    return this.entries.filter((entry) => entry.timestamp >= since);
+  }
+
+  record(source: LogSource, line: string): void {
+    if (line.trim().length === 0) return;
+    const entry = this.parse(source, line);
+    this.entries.push(entry);
+    if (this.entries.length > maxEntries) {
+      this.entries.splice(0, this.entries.length - maxEntries);
+    }
+    if (this.panel) {
+      this.pending.push(entry);
+      if (!this.flushTimeout) {
+        this.flushTimeout = setTimeout(() => this.flush(), flushDelayMillis);
+      }
+    }
+  }
+
+  show(context: ExtensionContext): void {
+    if (this.panel) {
+      this.panel.reveal();
+      return;
+    }
+    const panel = window.createWebviewPanel(
+      "metals-logs",
+      "Metals Logs",
+      ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    this.panel = panel;
+    context.subscriptions.push(panel);
+    panel.onDidDispose(() => {
+      this.panel = undefined;
+      this.pending = [];
+    });
+    panel.webview.onDidReceiveMessage((message: LogViewerMessage) => {
+      if (message.command === "export") this.export(message);
+    });
+    panel.webview.html = html();
+    panel.webview.postMessage({ command: "append", entries: this.entries });
+  }
+
+  private flush(): void {
+    this.flushTimeout = undefined;
+    if (this.panel && this.pending.length > 0) {
+      this.panel.webview.postMessage({
+        command: "append",
+        entries: this.pending,
+      });
+    }
+    this.pending = [];
+  }
+
+  private parse(source: LogSource, line: string): LogEntry {
+    const id = this.nextId++;
+    const server = serverLine.exec(line);
+    if (server) {
+      const [
+        ,
+        year,
+        month,
+        day,
+        hours,
+        minutes,
+        seconds,
+        level,
+        message,
+      ] = server;
+      return {
+        id,
+        timestamp: new Date(
+          Number(year),
+          Number(month) - 1,
+          Number(day),
+          Number(hours),
+          Number(minutes),
+          Number(seconds)
+        ).getTime(),
+        level: toLevel(level),
+        source,
+        message,
+      };
+    }
+    const client = clientLine.exec(line);
+    if (client) {
+      return {
+        id,
+        timestamp: Date.now(),
+        level: toLevel(client[1]),
+        source,
+        message: client[2],
+      };
+    }
+    // Lines such as the frames of a stacktrace continue the previous entry.
+    const previous = this.entries[this.entries.length - 1];
+    const continues =
+      previous?.source === source && /^(\s+|Caused by: )/.test(line);
+    return {
+      id,
+      timestamp: Date.now(),
+      level: continues ? previous.level : guessLevel(line),
+      source,
+      message: line,
+    };
+  }
+
+  private export(message: LogViewerMessage): Thenable<void> {
+    const since =
+      message.minutes > 0 ? Date.now() - message.minutes * 60000 : 0;
+    const search = message.search.toLowerCase();
+    const lines = this.entries
+      .filter(
+        (entry) =>
+          entry.timestamp >= since &&
+          message.levels.includes(entry.level) &&
+          message.sources.includes(entry.source) &&
+          entry.message.toLowerCase().includes(search)
+      )
+      .map(formatEntry);
+    return window
+      .showSaveDialog({
+        defaultUri: workspace.workspaceFolders?.[0]
+          ? Uri.joinPath(workspace.workspaceFolders[0].uri, "metals-logs.txt")
+          : undefined,
+        filters: { Logs: ["txt", "log"] },
+      })
+      .then((target) => {
+        if (target) {
+          return workspace.fs
+            .writeFile(target, Buffer.from(lines.join("\n") + "\n", "utf8"))
+            .then(() => {
+              window.showInformationMessage(
+                `Exported ${lines.length} log lines to ${target.fsPath}`
+              );
+            });
+        }
+      });
+  }
+}
+
+export function startLogViewer(
+  context: ExtensionContext,
+  logs: MetalsLogs
+): void {
+  context.subscriptions.push(
+    commands.registerCommand("metals.show-log-viewer", () =>
+      logs.show(context)
+    ),
+    debug.registerDebugAdapterTrackerFactory("scala", {
+      createDebugAdapterTracker: () => ({
+        onDidSendMessage: (message: any) => {
+          if (
+            message.type === "event" &&
+            message.event === "output" &&
+            typeof message.body?.output === "string"
+          ) {
+            message.body.output
+              .split(/\r?\n/)
+              .forEach((line: string) => logs.record("debug adapter", line));
+          }
+        },
+      }),
+    })
+  );
+}
+
+export function formatEntry(entry: LogEntry): string {
+  const date = new Date(entry.timestamp);
+  const pad = (n: number) => `${n}`.padStart(2, "0");
+  const time = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds()
+  )}`;
+  return `${time} ${entry.level.toUpperCase().padEnd(5)} [${entry.source}] ${
+    entry.message
+  }`;
+}
+
+function toLevel(level: string): LogLevel {
+  switch (level.toUpperCase()) {
+    case "ERROR":
+      return "error";
+    case "WARN":
+    case "WARNING":
+      return "warn";
+    case "DEBUG":
+    case "TRACE":
+      return "debug";
+    default:
+      return "info";
+  }
+}
+
+function guessLevel(line: string): LogLevel {
+  if (/\b(error|exception|failed)\b/i.test(line)) return "error";
+  if (/\bwarn(ing)?\b/i.test(line)) return "warn";
+  return "info";
+}
+
+function html(): string {
+  const nonce = `${Date.now()}${Math.random()}`.replace(".", "");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<title>Metals Logs</title>
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0; }
+  .toolbar { position: sticky; top: 0; display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 6px; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); }
+  input[type=text] { flex: 1; min-width: 150px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border); }
+  select { background: var(--vscode-dropdown-background); color: var(--vscode-dropdown-foreground); border: 1px solid var(--vscode-dropdown-border); }
+  button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 2px 8px; }
+  #logs { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); white-space: pre-wrap; padding: 6px; }
+  .entry { display: flex; gap: 8px; }
+  .time, .source { color: var(--vscode-descriptionForeground); flex: none; }
+  .level { flex: none; width: 5ch; }
+  .error .level { color: var(--vscode-errorForeground); }
+  .warn .level { color: var(--vscode-editorWarning-foreground); }
+  .debug { opacity: 0.7; }
+  mark { background: var(--vscode-editor-findMatchHighlightBackground); color: inherit; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+  <input id="search" type="text" placeholder="Search">
+  <span id="levels">
+    <label><input type="checkbox" value="error" checked>Error</label>
+    <label><input type="checkbox" value="warn" checked>Warn</label>
+    <label><input type="checkbox" value="info" checked>Info</label>
+    <label><input type="checkbox" value="debug">Debug</label>
+  </span>
+  <span id="sources">
+    <label><input type="checkbox" value="client" checked>Client</label>
+    <label><input type="checkbox" value="server" checked>Server</label>
+    <label><input type="checkbox" value="download" checked>Download</label>
+    <label><input type="checkbox" value="debug adapter" checked>Debug adapter</label>
+  </span>
+  <button id="follow">Pause</button>
+  <select id="window">
+    <option value="5">Last 5 minutes</option>
+    <option value="15">Last 15 minutes</option>
+    <option value="60">Last hour</option>
+    <option value="0" selected>Everything</option>
+  </select>
+  <button id="export">Export</button>
+  <span id="count"></span>
+</div>
+<div id="logs"></div>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  // Only the last entries are kept, as in the extension.
+  const maxEntries = ${maxEntries};
+  const entries = [];
+  const queued = [];
+  let following = true;
+  const logs = document.getElementById("logs");
+  const search = document.getElementById("search");
+  const checked = (id) =>
+    Array.from(document.querySelectorAll("#" + id + " input:checked")).map((input) => input.value);
+  const filter = () => {
+    const levels = checked("levels");
+    const sources = checked("sources");
+    const query = search.value.toLowerCase();
+    return (entry) =>
+      levels.includes(entry.level) &&
+      sources.includes(entry.source) &&
+      entry.message.toLowerCase().includes(query);
+  };
+  const escape = (text) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const highlight = (text) => {
+    const query = search.value;
+    if (!query) return escape(text);
+    const index = text.toLowerCase().indexOf(query.toLowerCase());
+    if (index < 0) return escape(text);
+    return escape(text.substring(0, index)) + "<mark>" +
+      escape(text.substring(index, index + query.length)) + "</mark>" +
+      highlight(text.substring(index + query.length));
+  };
+  const render = (entry) => {
+    const row = document.createElement("div");
+    row.className = "entry " + entry.level;
+    const time = new Date(entry.timestamp).toLocaleTimeString();
+    row.innerHTML =
+      '<span class="time">' + time + "</span>" +
+      '<span class="level">' + entry.level.toUpperCase() + "</span>" +
+      '<span class="source">[' + entry.source + "]</span>" +
+      "<span>" + highlight(entry.message) + "</span>";
+    return row;
+  };
+  const scroll = () => {
+    if (following) window.scrollTo(0, document.body.scrollHeight);
+  };
+  const refresh = () => {
+    const matches = entries.filter(filter());
+    logs.replaceChildren(...matches.map(render));
+    document.getElementById("count").textContent = matches.length + " / " + entries.length;
+    scroll();
+  };
+  const append = (batch) => {
+    const added = batch.slice(-maxEntries);
+    const dropped = entries.length + added.length - maxEntries;
+    if (dropped > 0) {
+      entries
+        .splice(0, dropped)
+        .filter(filter())
+        .forEach(() => logs.firstElementChild.remove());
+    }
+    entries.push(...added);
+    const matches = added.filter(filter());
+    matches.forEach((entry) => logs.appendChild(render(entry)));
+    document.getElementById("count").textContent = logs.childElementCount + " / " + entries.length;
+    scroll();
+  };
+  window.addEventListener("message", (event) => {
+    if (event.data.command !== "append") return;
+    if (following) append(event.data.entries);
+    else {
+      queued.push(...event.data.entries);
+      if (queued.length > maxEntries) queued.splice(0, queued.length - maxEntries);
+    }
+  });
+  search.addEventListener("input", refresh);
+  document.querySelectorAll(".toolbar input[type=checkbox]").forEach((input) =>
+    input.addEventListener("change", refresh)
+  );
+  document.getElementById("follow").addEventListener("click", (event) => {
+    following = !following;
+    event.target.textContent = following ? "Pause" : "Follow";
+    if (following) append(queued.splice(0, queued.length));
+  });
+  document.getElementById("export").addEventListener("click", () =>
+    vscode.postMessage({
+      command: "export",
+      minutes: Number(document.getElementById("window").value),
+      levels: checked("levels"),
+      sources: checked("sources"),
+      search: search.value,
+    })
+  );
+</script>
+</body>
+</html>`;
+}
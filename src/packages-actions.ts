@@ -0,0 +1,209 @@
+import * as path from "path";
+import { commands, env, ExtensionContext, Uri, window } from "vscode";
+import { ExecuteCommandRequest, LanguageClient } from "vscode-languageclient";
+import { MetalsTreeViewNode, ServerCommands } from "metals-languageclient";
+import * as scalaDebugger from "./scalaDebugger";
+import { buildTargetDirectory } from "./compilation-dashboard";
+import {
+  fetchBuildTargets,
+  fetchPackagesChildren,
+  fetchToplevels,
+  findToplevel,
+  isToplevelSymbol,
+  locateSymbol,
+  parseNodeUri,
+  toFullyQualifiedName,
+  toplevelSymbolOf,
+} from "./treeview";
+
+("use strict");
+
+/**
+ * The actions of the context menus of the Packages view, which receive the
+ * URI of the node they're run for. The Packages view shows the build of a
+ * single server, `client` returns it.
+ */
+export function startPackagesActions(
+  context: ExtensionContext,
+  client: () => LanguageClient | undefined
+): void {
+  function register(
+    command: string,
+    action: (client: LanguageClient, nodeUri: string) => Thenable<unknown>
+  ): void {
+    context.subscriptions.push(
+      commands.registerCommand(command, (nodeUri?: string) => {
+        const current = client();
+        if (!current || !nodeUri) return;
+        return action(current, nodeUri).then(undefined, (error) =>
+          window.showErrorMessage(`${error}`)
+        );
+      })
+    );
+  }
+
+  register("metals.packages-copy-fqn", (_, nodeUri) => {
+    const symbol = parseNodeUri(nodeUri)?.symbol ?? "";
+    return env.clipboard.writeText(
+      toFullyQualifiedName(symbol.replace(/\([^)]*\)\.$/, ""))
+    );
+  });
+  register("metals.packages-reveal-in-explorer", (client, nodeUri) =>
+    fileOfNode(client, nodeUri).then((uri) => {
+      if (!uri) {
+        return window.showWarningMessage(
+          "The file of this node couldn't be found in the workspace"
+        );
+      }
+      return commands.executeCommand("revealInExplorer", uri);
+    })
+  );
+  register("metals.packages-open-jar-source", (client, nodeUri) =>
+    openJarSource(client, nodeUri)
+  );
+  register("metals.packages-compile-target", (client, nodeUri) =>
+    compileTarget(client, nodeUri)
+  );
+  register("metals.packages-run-target", (client, nodeUri) =>
+    runTarget(client, nodeUri, true)
+  );
+  register("metals.packages-debug-target", (client, nodeUri) =>
+    runTarget(client, nodeUri, false)
+  );
+}
+
+/**
+ * The file of a class or of the class of a method, the directory of a build
+ * target or the directory of the classes of a package.
+ */
+function fileOfNode(
+  client: LanguageClient,
+  nodeUri: string
+): Thenable<Uri | undefined> {
+  const parsed = parseNodeUri(nodeUri);
+  const folder = client.clientOptions.workspaceFolder;
+  if (!parsed || !folder) return Promise.resolve(undefined);
+  if (parsed.symbol === "") {
+    return Promise.resolve(Uri.file(buildTargetDirectory(folder, parsed.key)));
+  }
+  if (parsed.symbol.endsWith("/")) {
+    return fetchPackagesChildren(client, nodeUri).then((nodes) => {
+      const toplevel = nodes.map(symbolOf).find(isToplevelSymbol);
+      return toplevel
+        ? locateSymbol(toplevel).then(
+            (file) => file && Uri.file(path.dirname(file.fsPath))
+          )
+        : undefined;
+    });
+  }
+  const toplevel = toplevelSymbolOf(parsed.symbol);
+  return toplevel ? locateSymbol(toplevel) : Promise.resolve(undefined);
+}
+
+// Picks one of the classes of a library jar and opens its sources.
+function openJarSource(
+  client: LanguageClient,
+  nodeUri: string
+): Thenable<unknown> {
+  const picks = fetchToplevels(client, nodeUri).then((nodes) =>
+    nodes
+      .filter((node) => node.command)
+      .map((node) => ({
+        label: node.label,
+        description: toFullyQualifiedName(symbolOf(node)),
+        node,
+      }))
+  );
+  return window
+    .showQuickPick(picks, {
+      placeHolder: "Pick the class to open",
+      matchOnDescription: true,
+    })
+    .then((pick) => {
+      const command = pick?.node.command;
+      return command
+        ? commands.executeCommand(command.command, ...(command.arguments ?? []))
+        : undefined;
+    });
+}
+
+/**
+ * Metals has no command to compile a single build target, it compiles the
+ * build target of the focused file and the ones that depend on it. One of
+ * the sources of the build target is opened to focus it, found from one of
+ * its classes since build targets can share their directory, e.g. the main
+ * and test sources.
+ */
+function compileTarget(
+  client: LanguageClient,
+  nodeUri: string
+): Thenable<unknown> {
+  return Promise.all([fetchBuildTargets(client), findToplevel(client, nodeUri)])
+    .then(([targets, toplevel]) => {
+      const target = targets.find((node) => node.nodeUri === nodeUri);
+      const symbol = toplevel && symbolOf(toplevel);
+      return (symbol
+        ? locateSymbol(symbol)
+        : Promise.resolve(undefined)
+      ).then((source) => ({ target, source }));
+    })
+    .then(
+      ({ target, source }): Thenable<unknown> => {
+        if (!source) {
+          return window.showWarningMessage(
+            `No sources of ${
+              target?.label ?? "the build target"
+            } found to compile, it needs to be compiled once from one of its files`
+          );
+        }
+        // The client notifies Metals once the source is the active editor.
+        return window.showTextDocument(source).then(() =>
+          client.sendRequest(ExecuteCommandRequest.type, {
+            command: ServerCommands.CascadeCompile,
+          })
+        );
+      }
+    );
+}
+
+// Runs or debugs one of the main classes the server found in the build target.
+function runTarget(
+  client: LanguageClient,
+  nodeUri: string,
+  noDebug: boolean
+): Thenable<unknown> {
+  return Promise.all([
+    fetchBuildTargets(client),
+    scalaDebugger.discoverMainClasses(client, nodeUri),
+  ]).then(
+    ([targets, mainClasses]): Thenable<unknown> => {
+      const target = targets.find((node) => node.nodeUri === nodeUri);
+      if (mainClasses.length === 0) {
+        return window.showWarningMessage(
+          `No main class found in ${target?.label ?? "the build target"}`
+        );
+      }
+      return window
+        .showQuickPick(
+          mainClasses.map((mainClass) => ({
+            label: mainClass.name,
+            description: mainClass.className,
+            mainClass,
+          })),
+          {
+            placeHolder: `Pick the main class to ${noDebug ? "run" : "debug"}`,
+            matchOnDescription: true,
+          }
+        )
+        .then((pick) =>
+          pick
+            ? scalaDebugger.start(client, noDebug, pick.mainClass.parameters)
+            : undefined
+        );
+    }
+  );
+}
+
+function symbolOf(node: MetalsTreeViewNode): string {
+  return (node.nodeUri && parseNodeUri(node.nodeUri)?.symbol) ?? "";
+}
@@ -0,0 +1,390 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import { execFile } from "child_process";
+import {
+  ProgressLocation,
+  QuickPickItem,
+  Uri,
+  window,
+  workspace,
+} from "vscode";
+import { MetalsOpenWindowParams } from "metals-languageclient";
+
+("use strict");
+
+/**
+ * A project template of `metals.projectTemplates`, its files are copied with
+ * the `$name$`, `$package$`, `$package__packaged$`, `$scalaVersion$` and
+ * `$buildTool$` variables replaced in their contents and paths.
+ */
+export interface ProjectTemplate {
+  name: string;
+  // A local directory or the URL of a git repository.
+  location: string;
+  description?: string;
+  // For git repositories, the branch or tag to use.
+  ref?: string;
+  // For git repositories, the directory of the template in the repository.
+  directory?: string;
+}
+
+// The optional `template.json` at the root of a template.
+interface TemplateManifest {
+  defaults?: Partial<TemplateParameters>;
+  // Paths only generated for a build tool, e.g. `{ "sbt": ["build.sbt", "project"] }`.
+  buildTools?: Record<string, string[]>;
+}
+
+interface TemplateParameters {
+  name: string;
+  package: string;
+  scalaVersion: string;
+  buildTool: string;
+}
+
+interface GeneratedFile {
+  relativePath: string;
+  content: Buffer;
+}
+
+interface TemplatePick extends QuickPickItem {
+  template?: ProjectTemplate;
+}
+
+interface PreviewPick extends QuickPickItem {
+  file?: GeneratedFile;
+}
+
+const manifestFile = "template.json";
+const defaultScalaVersion = "2.13.6";
+const defaultBuildTools = ["sbt", "mill", "Maven", "Gradle"];
+const ignoredFiles = [".git", manifestFile];
+
+/**
+ * Asks which of the configured templates to use, `"server"` means the
+ * templates listed by the Metals server.
+ */
+export async function pickProjectTemplate(): Promise<
+  ProjectTemplate | "server" | undefined
+> {
+  const templates = workspace
+    .getConfiguration("metals")
+    .get<ProjectTemplate[]>("projectTemplates", [])
+    .filter((template) => template.name && template.location);
+  if (templates.length === 0) return "server";
+  const server: TemplatePick = {
+    label: "$(cloud) Browse the templates of Metals",
+    description: "giter8 templates listed by the Metals server",
+  };
+  const pick = await window.showQuickPick<TemplatePick>(
+    templates
+      .map<TemplatePick>((template) => ({
+        label: template.name,
+        description: template.description,
+        detail: template.location,
+        template,
+      }))
+      .concat(server),
+    {
+      placeHolder: "Select the template of the new project",
+      matchOnDetail: true,
+    }
+  );
+  if (!pick) return undefined;
+  return pick.template ?? "server";
+}
+
+/**
+ * Generates a project from `template` after prompting for its parameters
+ * and previewing its files, returns where to open it.
+ */
+export async function newProjectFromTemplate(
+  template: ProjectTemplate
+): Promise<MetalsOpenWindowParams | undefined> {
+  // Git would take it for one of its options.
+  if (template.location.startsWith("-")) {
+    window.showErrorMessage(
+      `The location '${template.location}' of the ${template.name} template is invalid`
+    );
+    return undefined;
+  }
+  if (!isGitLocation(template.location)) {
+    const directory = template.location.replace(/^~(?=$|[\\/])/, os.homedir());
+    if (!(await isDirectory(directory))) {
+      window.showErrorMessage(
+        `The ${template.name} template doesn't exist, '${directory}' isn't a directory`
+      );
+      return undefined;
+    }
+    return generateProject(template, directory);
+  }
+  const clone = await cloneTemplate(template);
+  if (!clone) return undefined;
+  try {
+    const directory = path.join(clone, template.directory ?? "");
+    const relative = path.relative(clone, directory);
+    if (
+      relative === ".." ||
+      relative.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relative)
+    ) {
+      window.showErrorMessage(
+        `The directory '${template.directory}' of the ${template.name} template is outside of its repository`
+      );
+      return undefined;
+    }
+    if (!(await isDirectory(directory))) {
+      window.showErrorMessage(
+        `The ${template.name} template has no directory '${template.directory}'`
+      );
+      return undefined;
+    }
+    return await generateProject(template, directory);
+  } finally {
+    fs.promises.rm(clone, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+async function generateProject(
+  template: ProjectTemplate,
+  root: string
+): Promise<MetalsOpenWindowParams | undefined> {
+  const manifest = await readManifest(root);
+  const parameters = await promptParameters(manifest);
+  if (!parameters) return undefined;
+  const parent = await window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    defaultUri: workspace.workspaceFolders?.[0]
+      ? Uri.file(path.dirname(workspace.workspaceFolders[0].uri.fsPath))
+      : Uri.file(os.homedir()),
+    openLabel: "Create project here",
+  });
+  if (!parent?.[0]) return undefined;
+  const projectDirectory = path.join(parent[0].fsPath, parameters.name);
+  if ((await fs.promises.readdir(projectDirectory).catch(() => [])).length) {
+    window.showErrorMessage(
+      `Can't create the project, '${projectDirectory}' isn't empty`
+    );
+    return undefined;
+  }
+  const files = await generateFiles(root, manifest, parameters);
+  if (!(await preview(files, projectDirectory))) return undefined;
+  for (const file of files) {
+    const target = path.join(projectDirectory, file.relativePath);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, file.content);
+  }
+  const newWindow = "Open in new window";
+  const currentWindow = "Open in current window";
+  const choice = await window.showInformationMessage(
+    `Created ${parameters.name} from the ${template.name} template`,
+    newWindow,
+    currentWindow
+  );
+  if (!choice) return undefined;
+  return {
+    uri: Uri.file(projectDirectory).toString(),
+    openNewWindow: choice === newWindow,
+  };
+}
+
+// Clones the git repository of the template in a temporary directory.
+async function cloneTemplate(
+  template: ProjectTemplate
+): Promise<string | undefined> {
+  const clone = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "metals-template-")
+  );
+  const args = ["clone", "--depth", "1"]
+    .concat(template.ref ? ["--branch", template.ref] : [])
+    .concat("--", template.location, clone);
+  try {
+    await window.withProgress(
+      {
+        location: ProgressLocation.Notification,
+        title: `Cloning the ${template.name} template...`,
+      },
+      () =>
+        new Promise<void>((resolve, reject) =>
+          execFile("git", args, (error, _stdout, stderr) =>
+            error ? reject(new Error(stderr || error.message)) : resolve()
+          )
+        )
+    );
+    return clone;
+  } catch (error) {
+    fs.promises.rm(clone, { recursive: true, force: true }).catch(() => {});
+    window.showErrorMessage(
+      `Could not clone the ${template.name} template: ${error.message}`
+    );
+    return undefined;
+  }
+}
+
+async function readManifest(root: string): Promise<TemplateManifest> {
+  try {
+    return JSON.parse(
+      await fs.promises.readFile(path.join(root, manifestFile), "utf8")
+    );
+  } catch (_) {
+    return {};
+  }
+}
+
+async function promptParameters(
+  manifest: TemplateManifest
+): Promise<TemplateParameters | undefined> {
+  const defaults = manifest.defaults ?? {};
+  const name = await window.showInputBox({
+    prompt: "Name of the project",
+    value: defaults.name ?? "my-project",
+    validateInput: (value) =>
+      /^[\w.-]+$/.test(value)
+        ? undefined
+        : "Use letters, digits, '.', '-' and '_' only",
+  });
+  if (!name) return undefined;
+  const pkg = await window.showInputBox({
+    prompt: "Package of the project",
+    value:
+      defaults.package ??
+      `com.example.${name.replace(/[^\w]/g, "").toLowerCase()}`,
+    validateInput: (value) =>
+      /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/.test(value)
+        ? undefined
+        : "Not a valid package name",
+  });
+  if (!pkg) return undefined;
+  const scalaVersion = await window.showInputBox({
+    prompt: "Scala version",
+    value: defaults.scalaVersion ?? defaultScalaVersion,
+    validateInput: (value) =>
+      /^\d+\.\d+\.\d+\S*$/.test(value) ? undefined : "Not a Scala version",
+  });
+  if (!scalaVersion) return undefined;
+  const buildTools = manifest.buildTools
+    ? Object.keys(manifest.buildTools)
+    : defaultBuildTools;
+  const buildTool =
+    buildTools.length === 1
+      ? buildTools[0]
+      : await window.showQuickPick(
+          defaults.buildTool && buildTools.includes(defaults.buildTool)
+            ? [defaults.buildTool].concat(
+                buildTools.filter((tool) => tool !== defaults.buildTool)
+              )
+            : buildTools,
+          { placeHolder: "Build tool of the project" }
+        );
+  if (!buildTool) return undefined;
+  return { name, package: pkg, scalaVersion, buildTool };
+}
+
+async function generateFiles(
+  root: string,
+  manifest: TemplateManifest,
+  parameters: TemplateParameters
+): Promise<GeneratedFile[]> {
+  // The files of the other build tools are left out.
+  const excluded = Object.entries(manifest.buildTools ?? {})
+    .filter(([buildTool]) => buildTool !== parameters.buildTool)
+    .reduce<string[]>((all, [, paths]) => all.concat(paths), [])
+    .map((excludedPath) => path.normalize(excludedPath));
+  const isExcluded = (relativePath: string) =>
+    excluded.some(
+      (excludedPath) =>
+        relativePath === excludedPath ||
+        relativePath.startsWith(excludedPath + path.sep)
+    );
+  const files: GeneratedFile[] = [];
+  for (const relativePath of await listFiles(root, "")) {
+    if (isExcluded(relativePath)) continue;
+    const content = await fs.promises.readFile(path.join(root, relativePath));
+    files.push({
+      relativePath: substitute(relativePath, parameters),
+      content: isText(content)
+        ? Buffer.from(substitute(content.toString("utf8"), parameters))
+        : content,
+    });
+  }
+  return files;
+}
+
+/**
+ * Lists the files to generate, selecting one shows its content. Resolves to
+ * `true` once the user confirms.
+ */
+async function preview(
+  files: GeneratedFile[],
+  projectDirectory: string
+): Promise<boolean> {
+  const create: PreviewPick = {
+    label: `$(check) Create ${files.length} files`,
+    description: projectDirectory,
+  };
+  const picks = [create].concat(
+    files.map((file) => ({
+      label: `$(file) ${file.relativePath}`,
+      description: `${file.content.length} bytes`,
+      file,
+    }))
+  );
+  for (;;) {
+    const pick = await window.showQuickPick(picks, {
+      placeHolder: "Select a file to preview it, or create the project",
+      matchOnDescription: true,
+    });
+    if (!pick) return false;
+    if (!pick.file) return true;
+    const document = await workspace.openTextDocument({
+      content: isText(pick.file.content)
+        ? pick.file.content.toString("utf8")
+        : `Binary file of ${pick.file.content.length} bytes`,
+    });
+    await window.showTextDocument(document, { preview: true });
+  }
+}
+
+function substitute(text: string, parameters: TemplateParameters): string {
+  return text
+    .replace(/\$package__packaged\$/g, parameters.package.replace(/\./g, "/"))
+    .replace(/\$name\$/g, parameters.name)
+    .replace(/\$package\$/g, parameters.package)
+    .replace(/\$scalaVersion\$/g, parameters.scalaVersion)
+    .replace(/\$buildTool\$/g, parameters.buildTool);
+}
+
+async function listFiles(root: string, relative: string): Promise<string[]> {
+  const entries = await fs.promises.readdir(path.join(root, relative), {
+    withFileTypes: true,
+  });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (relative === "" && ignoredFiles.includes(entry.name)) continue;
+    const relativePath = path.join(relative, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(root, relativePath)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+function isGitLocation(location: string): boolean {
+  return /^(https?|ssh|git|file):\/\/|^[\w.-]+@[\w.-]+:|\.git$/.test(location);
+}
+
+function isText(content: Buffer): boolean {
+  return !content.subarray(0, 8000).includes(0);
+}
+
+function isDirectory(directory: string): Promise<boolean> {
+  return fs.promises.stat(directory).then(
+    (stat) => stat.isDirectory(),
+    () => false
+  );
+}
@@ -7,54 +7,171 @@ import {
   WorkspaceFolder,
   DebugAdapterDescriptor,
 } from "vscode";
-import { ServerCommands } from "metals-languageclient";
+import {
+  ClientCommands,
+  MetalsTreeViewNode,
+  ServerCommands,
+} from "metals-languageclient";
+import { ExecuteCommandRequest, LanguageClient } from "vscode-languageclient";
+import { WorkspaceClients } from "./workspace-clients";
+import {
+  fetchBuildTargets,
+  fetchToplevels,
+  locateSymbol,
+  parseNodeUri,
+  testSuitePattern,
+  toFullyQualifiedName,
+} from "./treeview";
 
 const configurationType = "scala";
 const launchRequestType = "launch";
 const attachRequestType = "attach";
 
-export function initialize(outputChannel: vscode.OutputChannel): Disposable[] {
+export function initialize(
+  outputChannel: vscode.OutputChannel,
+  clients: WorkspaceClients
+): Disposable[] {
   outputChannel.appendLine("Initializing Scala Debugger");
   return [
     vscode.debug.registerDebugConfigurationProvider(
       configurationType,
-      new ScalaConfigProvider()
+      new ScalaConfigProvider(clients)
     ),
     vscode.debug.registerDebugAdapterDescriptorFactory(
       configurationType,
-      new ScalaDebugServerFactory()
+      new ScalaDebugServerFactory(clients)
     ),
   ];
 }
 
 export async function start(
+  client: LanguageClient,
   noDebug: Boolean,
   ...parameters: any[]
 ): Promise<Boolean> {
-  return vscode.commands
-    .executeCommand<DebugSession>(
-      ServerCommands.DebugAdapterStart,
-      ...parameters
-    )
-    .then((response) => {
-      if (response === undefined) return false;
+  commands.executeCommand("workbench.panel.repl.view.focus");
+  return startSession(client, noDebug, parameters);
+}
 
-      const port = debugServerFromUri(response.uri).port;
+/**
+ * Starts a debug adapter on the server and connects a debug session to it.
+ * The extra `configuration` is passed along with the launch configuration so
+ * that listeners can recognise the session.
+ */
+export function startSession(
+  client: LanguageClient,
+  noDebug: Boolean,
+  parameters: any[],
+  configuration: Partial<DebugConfiguration> = {}
+): Thenable<boolean> {
+  return startDebugAdapter(client, parameters).then((response) => {
+    if (response === undefined) return false;
 
-      const configuration: vscode.DebugConfiguration = {
-        type: configurationType,
-        name: response.name,
-        noDebug: noDebug,
-        request: "launch",
-        debugServer: port, // note: MUST be a number. vscode magic - automatically connects to the server
-      };
-      commands.executeCommand("workbench.panel.repl.view.focus");
-      return vscode.debug.startDebugging(undefined, configuration);
+    const port = debugServerFromUri(response.uri).port;
+
+    const launchConfiguration: vscode.DebugConfiguration = {
+      ...configuration,
+      type: configurationType,
+      name: response.name,
+      noDebug: noDebug,
+      request: "launch",
+      debugServer: port, // note: MUST be a number. vscode magic - automatically connects to the server
+    };
+    return vscode.debug.startDebugging(
+      client.clientOptions.workspaceFolder,
+      launchConfiguration
+    );
+  });
+}
+
+function startDebugAdapter(
+  client: LanguageClient,
+  parameters: any[]
+): Thenable<DebugSession | undefined> {
+  return client.sendRequest(ExecuteCommandRequest.type, {
+    command: ServerCommands.DebugAdapterStart,
+    arguments: parameters,
+  });
+}
+
+export interface MainClass {
+  name: string;
+  className: string;
+  // The parameters of `debug-adapter-start` to run the class.
+  parameters: any;
+}
+
+/**
+ * The main classes of a build target, as found by the server for its run code
+ * lenses. Only the files of the top-level objects are asked for their code
+ * lenses, and Metals only finds the main classes of compiled files.
+ */
+export function discoverMainClasses(
+  client: LanguageClient,
+  targetNodeUri: string
+): Thenable<MainClass[]> {
+  const target = parseNodeUri(targetNodeUri)?.key;
+  return fetchToplevels(client, targetNodeUri)
+    .then((toplevels) =>
+      Promise.all(
+        toplevels
+          .map(
+            (node) => (node.nodeUri && parseNodeUri(node.nodeUri)?.symbol) ?? ""
+          )
+          .filter((symbol) => symbol.endsWith("."))
+          .map((symbol) => locateSymbol(symbol))
+      )
+    )
+    .then((files) => {
+      const uris = Array.from(
+        new Set(files.filter(isDefined).map((file) => file.toString()))
+      );
+      return Promise.all(
+        uris.map((uri) =>
+          commands.executeCommand<vscode.CodeLens[]>(
+            "vscode.executeCodeLensProvider",
+            vscode.Uri.parse(uri)
+          )
+        )
+      );
+    })
+    .then((lenses) => {
+      const mainClasses: Map<string, MainClass> = new Map();
+      lenses.forEach((fileLenses) =>
+        (fileLenses ?? []).forEach((lens) => {
+          if (lens.command?.command !== ClientCommands.StartRunSession) return;
+          const parameters = lens.command.arguments?.[0];
+          const className = parameters?.data?.class;
+          if (
+            parameters?.dataKind !== "scala-main-class" ||
+            typeof className !== "string" ||
+            (target &&
+              !(parameters.targets ?? []).some(
+                (id: { uri: string }) => id.uri === target
+              ))
+          )
+            return;
+          mainClasses.set(className, {
+            name: className.substring(className.lastIndexOf(".") + 1),
+            className,
+            parameters,
+          });
+        })
+      );
+      return Array.from(mainClasses.values());
     });
 }
 
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
+
 class ScalaConfigProvider implements vscode.DebugConfigurationProvider {
-  provideDebugConfigurations(): ProviderResult<DebugConfiguration[]> {
+  constructor(readonly clients: WorkspaceClients) {}
+
+  provideDebugConfigurations(
+    folder: WorkspaceFolder | undefined
+  ): ProviderResult<DebugConfiguration[]> {
     const mainClassPick = "Main Class";
     const testClassPick = "Test Suite";
     const attachPick = "Attach to JVM";
@@ -65,19 +182,25 @@ class ScalaConfigProvider implements vscode.DebugConfigurationProvider {
           "Pick the kind of the class to debug (Press 'Escape' to create 'launch.json' with no initial configuration)",
       })
       .then((result) => {
+        const discovery = new DebugDiscovery(
+          this.clients.select(folder?.uri).then(
+            (client) => client,
+            () => undefined
+          )
+        );
         switch (result) {
           case mainClassPick:
-            return this.provideDebugMainClassConfiguration().then((config) => [
-              config,
-            ]);
+            return this.provideDebugMainClassConfiguration(
+              discovery
+            ).then((config) => [config]);
           case testClassPick:
-            return this.provideDebugTestClassConfiguration().then((config) => [
-              config,
-            ]);
+            return this.provideDebugTestClassConfiguration(
+              discovery
+            ).then((config) => [config]);
           case attachPick:
-            return this.provideDebugAttachConfiguration().then((config) => [
-              config,
-            ]);
+            return this.provideDebugAttachConfiguration(
+              discovery
+            ).then((config) => [config]);
           default:
             return [];
         }
@@ -96,45 +219,61 @@ class ScalaConfigProvider implements vscode.DebugConfigurationProvider {
     return debugConfiguration;
   }
 
-  private provideDebugMainClassConfiguration(): Thenable<DebugConfiguration> {
-    return this.askForOptionalBuildTarget().then((buildTarget) =>
-      this.askForClassName().then((className) =>
-        this.askForConfigurationName(className).then((name) => {
-          const result: DebugConfiguration = {
-            type: configurationType,
-            name: name,
-            request: launchRequestType,
-            mainClass: className,
-            buildTarget: buildTarget,
-            args: [],
-          };
-          return result;
-        })
+  private provideDebugMainClassConfiguration(
+    discovery: DebugDiscovery
+  ): Thenable<DebugConfiguration> {
+    return this.askForOptionalBuildTarget(discovery).then((buildTarget) =>
+      this.askForClassName(discovery.mainClasses(buildTarget)).then(
+        (className) =>
+          this.askForConfigurationName(
+            defaultConfigurationName("Run", className, buildTarget)
+          ).then((name) => {
+            const result: DebugConfiguration = {
+              type: configurationType,
+              name: name,
+              request: launchRequestType,
+              mainClass: className,
+              buildTarget: buildTarget,
+              args: [],
+              jvmOptions: [],
+              env: {},
+            };
+            return result;
+          })
       )
     );
   }
 
-  private provideDebugTestClassConfiguration(): Thenable<DebugConfiguration> {
-    return this.askForOptionalBuildTarget().then((buildTarget) =>
-      this.askForClassName().then((className) =>
-        this.askForConfigurationName(className).then((name) => {
-          const result: DebugConfiguration = {
-            type: configurationType,
-            name: name,
-            request: launchRequestType,
-            testClass: className,
-            buildTarget: buildTarget,
-          };
-          return result;
-        })
+  private provideDebugTestClassConfiguration(
+    discovery: DebugDiscovery
+  ): Thenable<DebugConfiguration> {
+    return this.askForOptionalBuildTarget(discovery).then((buildTarget) =>
+      this.askForClassName(discovery.testSuites(buildTarget)).then(
+        (className) =>
+          this.askForConfigurationName(
+            defaultConfigurationName("Test", className, buildTarget)
+          ).then((name) => {
+            const result: DebugConfiguration = {
+              type: configurationType,
+              name: name,
+              request: launchRequestType,
+              testClass: className,
+              buildTarget: buildTarget,
+              jvmOptions: [],
+              env: {},
+            };
+            return result;
+          })
       )
     );
   }
 
-  provideDebugAttachConfiguration(): Thenable<DebugConfiguration> {
+  provideDebugAttachConfiguration(
+    discovery: DebugDiscovery
+  ): Thenable<DebugConfiguration> {
     return this.askForHostName().then((hostName) =>
       this.askForPort().then((port) =>
-        this.askForBuildTarget().then((buildTarget) => {
+        this.askForBuildTarget(discovery).then((buildTarget) => {
           const result: DebugConfiguration = {
             type: configurationType,
             name: `Attach to ${hostName}:${port} - ${buildTarget}`,
@@ -149,7 +288,33 @@ class ScalaConfigProvider implements vscode.DebugConfigurationProvider {
     );
   }
 
-  private askForOptionalBuildTarget(): Thenable<string | undefined> {
+  private askForOptionalBuildTarget(
+    discovery: DebugDiscovery
+  ): Thenable<string | undefined> {
+    return discovery.buildTargets().then((buildTargets) => {
+      if (buildTargets.length === 0) return this.enterOptionalBuildTarget();
+      const anyTarget: vscode.QuickPickItem = {
+        label: "Any build target",
+        description: "Metals looks for the class in all build targets",
+      };
+      return vscode.window
+        .showQuickPick(
+          [anyTarget].concat(buildTargets.map((label) => ({ label }))),
+          { placeHolder: "Pick the build target of the class" }
+        )
+        .then((pick) => {
+          if (pick === undefined) {
+            return Promise.reject();
+          } else if (pick === anyTarget) {
+            return undefined;
+          } else {
+            return pick.label;
+          }
+        });
+    });
+  }
+
+  private enterOptionalBuildTarget(): Thenable<string | undefined> {
     return vscode.window
       .showInputBox({
         prompt: "Enter the name of the build target",
@@ -185,7 +350,18 @@ class ScalaConfigProvider implements vscode.DebugConfigurationProvider {
       .then((port) => parseInt(port));
   }
 
-  private askForBuildTarget(): Thenable<string> {
+  private askForBuildTarget(discovery: DebugDiscovery): Thenable<string> {
+    return discovery.buildTargets().then((buildTargets) => {
+      if (buildTargets.length === 0) return this.enterBuildTarget();
+      return vscode.window
+        .showQuickPick(buildTargets, {
+          placeHolder: "Pick the build target to debug",
+        })
+        .then((buildTarget) => buildTarget ?? Promise.reject());
+    });
+  }
+
+  private enterBuildTarget(): Thenable<string> {
     return vscode.window
       .showInputBox({
         prompt: "Enter the name of the build target",
@@ -193,7 +369,38 @@ class ScalaConfigProvider implements vscode.DebugConfigurationProvider {
       .then((buildTarget) => buildTarget ?? Promise.reject());
   }
 
-  private askForClassName(): Thenable<string> {
+  private askForClassName(
+    discovered: Thenable<DiscoveredClass[]>
+  ): Thenable<string> {
+    return discovered.then((classes) => {
+      if (classes.length === 0) return this.enterClassName();
+      const manual: ClassPick = {
+        label: "Enter the class name...",
+        alwaysShow: true,
+      };
+      const picks: ClassPick[] = classes.map(({ name, className }) => ({
+        label: name,
+        description: className,
+        className,
+      }));
+      return vscode.window
+        .showQuickPick(picks.concat(manual), {
+          placeHolder: "Pick the class to debug",
+          matchOnDescription: true,
+        })
+        .then((pick) => {
+          if (pick === undefined) {
+            return Promise.reject();
+          } else if (pick.className === undefined) {
+            return this.enterClassName();
+          } else {
+            return pick.className;
+          }
+        });
+    });
+  }
+
+  private enterClassName(): Thenable<string> {
     return vscode.window
       .showInputBox({
         prompt: "Enter the name of the class to debug",
@@ -202,17 +409,121 @@ class ScalaConfigProvider implements vscode.DebugConfigurationProvider {
       .then((name) => name ?? Promise.reject());
   }
 
-  private askForConfigurationName(className: string): Thenable<string> {
+  private askForConfigurationName(defaultName: string): Thenable<string> {
     return vscode.window
       .showInputBox({
         prompt: "Enter the name of the configuration",
-        value: `Debug ${className}`,
+        value: defaultName,
       })
       .then((name) => name ?? Promise.reject());
   }
 }
 
+interface DiscoveredClass {
+  name: string;
+  className: string;
+}
+
+interface ClassPick extends vscode.QuickPickItem {
+  className?: string;
+}
+
+/**
+ * The build targets, main classes and test suites of the Packages view.
+ *
+ * Everything is empty when the server can't list them, the wizard then falls
+ * back to free text input.
+ */
+class DebugDiscovery {
+  private nodes: Thenable<MetalsTreeViewNode[]> | undefined;
+
+  constructor(readonly client: Thenable<LanguageClient | undefined>) {}
+
+  buildTargets(): Thenable<string[]> {
+    return this.buildTargetNodes().then((nodes) =>
+      nodes.map((node) => node.label)
+    );
+  }
+
+  mainClasses(buildTarget: string | undefined): Thenable<DiscoveredClass[]> {
+    if (buildTarget === undefined) return Promise.resolve([]);
+    return Promise.all([this.client, this.buildTargetNodes()])
+      .then(([client, nodes]) => {
+        const target = nodes.find((node) => node.label === buildTarget);
+        return client && target?.nodeUri
+          ? discoverMainClasses(client, target.nodeUri)
+          : [];
+      })
+      .then(
+        (mainClasses) =>
+          mainClasses.map(({ name, className }) => ({ name, className })),
+        () => []
+      );
+  }
+
+  testSuites(buildTarget: string | undefined): Thenable<DiscoveredClass[]> {
+    return this.classes(buildTarget, (node) =>
+      testSuitePattern().test(node.label)
+    );
+  }
+
+  private buildTargetNodes(): Thenable<MetalsTreeViewNode[]> {
+    if (!this.nodes) {
+      this.nodes = this.client
+        .then((client) => (client ? fetchBuildTargets(client) : []))
+        .then(
+          (nodes) => nodes,
+          () => []
+        );
+    }
+    return this.nodes;
+  }
+
+  // Classes are only listed for a picked build target, walking the packages
+  // of the whole build would take too long.
+  private classes(
+    buildTarget: string | undefined,
+    filter: (node: MetalsTreeViewNode, symbol: string) => boolean
+  ): Thenable<DiscoveredClass[]> {
+    if (buildTarget === undefined) return Promise.resolve([]);
+    return Promise.all([this.client, this.buildTargetNodes()])
+      .then(([client, nodes]) => {
+        const target = nodes.find((node) => node.label === buildTarget);
+        return client && target?.nodeUri
+          ? fetchToplevels(client, target.nodeUri)
+          : [];
+      })
+      .then(
+        (toplevels) => {
+          const classes: DiscoveredClass[] = [];
+          toplevels.forEach((node) => {
+            const parsed = node.nodeUri && parseNodeUri(node.nodeUri);
+            if (parsed && filter(node, parsed.symbol)) {
+              classes.push({
+                name: node.label,
+                className: toFullyQualifiedName(parsed.symbol),
+              });
+            }
+          });
+          return classes;
+        },
+        () => []
+      );
+  }
+}
+
+function defaultConfigurationName(
+  kind: string,
+  className: string,
+  buildTarget: string | undefined
+): string {
+  const name = className.substring(className.lastIndexOf(".") + 1);
+  return buildTarget ? `${kind} ${name} (${buildTarget})` : `${kind} ${name}`;
+}
+
 class ScalaDebugServerFactory implements vscode.DebugAdapterDescriptorFactory {
+  constructor(readonly clients: WorkspaceClients) {}
+
   createDebugAdapterDescriptor(
     session: vscode.DebugSession
   ): ProviderResult<DebugAdapterDescriptor> {
@@ -221,10 +532,12 @@ class ScalaDebugServerFactory implements vscode.DebugAdapterDescriptorFactory {
       session.configuration.testClass !== undefined ||
       session.configuration.hostName !== undefined
     ) {
-      return vscode.commands
-        .executeCommand<DebugSession>(
-          ServerCommands.DebugAdapterStart,
-          session.configuration
+      return this.clients
+        .select(session.workspaceFolder?.uri)
+        .then((client) =>
+          client
+            ? startDebugAdapter(client, [session.configuration])
+            : undefined
         )
         .then((debugSession) => {
           if (debugSession === undefined) return null;
@@ -0,0 +1,146 @@
+import * as path from "path";
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { ExtensionContext } from "vscode";
+
+("use strict");
+
+// Name of the checksums file in a server bundle, in the `sha256sum` format.
+export const checksumsFile = "checksums.sha256";
+const resolvedClasspathKey = "metals.resolvedClasspath";
+
+/**
+ * A classpath that launched Metals successfully, with the checksum of each
+ * jar to make sure it wasn't modified before being reused.
+ */
+interface ResolvedClasspath {
+  serverVersion: string;
+  classpath: string;
+  checksums: Record<string, string>;
+  timestamp: number;
+}
+
+/**
+ * The classpath of a server bundle configured with `metals.serverBundle`:
+ * either a single jar or a directory of jars, for example copied from
+ * another machine's Coursier cache.
+ *
+ * The bundle must contain a `checksums.sha256` file next to the jars, and
+ * every jar must be listed in it with a matching checksum.
+ */
+export async function bundleClasspath(bundle: string): Promise<string> {
+  const stat = await fs.promises.stat(bundle);
+  const directory = stat.isDirectory() ? bundle : path.dirname(bundle);
+  const jars = stat.isDirectory()
+    ? (await fs.promises.readdir(bundle))
+        .filter((file) => file.endsWith(".jar"))
+        .sort()
+        .map((file) => path.join(bundle, file))
+    : [bundle];
+  if (jars.length === 0) {
+    throw new Error(`The Metals server bundle '${bundle}' contains no jar`);
+  }
+  const checksums = await readChecksums(path.join(directory, checksumsFile));
+  if (!checksums) {
+    throw new Error(
+      `The Metals server bundle '${bundle}' has no ${checksumsFile} file, ` +
+        `create it in '${directory}' with 'sha256sum *.jar > ${checksumsFile}'`
+    );
+  }
+  for (const jar of jars) {
+    const expected = checksums[path.basename(jar)];
+    if (!expected) {
+      throw new Error(
+        `The jar '${jar}' isn't listed in the checksums of the Metals server bundle`
+      );
+    }
+    await verifyChecksum(jar, expected);
+  }
+  return jars.join(path.delimiter);
+}
+
+// Remembers the classpath downloaded for `serverVersion` to launch Metals offline.
+export async function saveResolvedClasspath(
+  context: ExtensionContext,
+  serverVersion: string,
+  classpath: string
+): Promise<void> {
+  const previous = context.globalState.get<ResolvedClasspath>(
+    resolvedClasspathKey
+  );
+  if (
+    previous?.serverVersion === serverVersion &&
+    previous.classpath === classpath
+  ) {
+    return;
+  }
+  const checksums: Record<string, string> = {};
+  for (const jar of classpath.split(path.delimiter)) {
+    checksums[jar] = await sha256(jar);
+  }
+  const resolved: ResolvedClasspath = {
+    serverVersion,
+    classpath,
+    checksums,
+    timestamp: Date.now(),
+  };
+  await context.globalState.update(resolvedClasspathKey, resolved);
+}
+
+/**
+ * The last classpath resolved for `serverVersion`, if all of its jars are
+ * still there and unchanged.
+ */
+export async function lastResolvedClasspath(
+  context: ExtensionContext,
+  serverVersion: string
+): Promise<{ classpath: string; timestamp: number } | undefined> {
+  const resolved = context.globalState.get<ResolvedClasspath>(
+    resolvedClasspathKey
+  );
+  if (resolved?.serverVersion !== serverVersion) return undefined;
+  try {
+    for (const [jar, checksum] of Object.entries(resolved.checksums)) {
+      await verifyChecksum(jar, checksum);
+    }
+  } catch (error) {
+    return undefined;
+  }
+  return { classpath: resolved.classpath, timestamp: resolved.timestamp };
+}
+
+async function readChecksums(
+  file: string
+): Promise<Record<string, string> | undefined> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(file, "utf8");
+  } catch (error) {
+    return undefined;
+  }
+  const checksums: Record<string, string> = {};
+  content.split(/\r?\n/).forEach((line) => {
+    const match = /^([0-9a-fA-F]{64})\s+\*?(.+)$/.exec(line.trim());
+    if (match) checksums[path.basename(match[2])] = match[1].toLowerCase();
+  });
+  return checksums;
+}
+
+async function verifyChecksum(jar: string, expected: string): Promise<void> {
+  const actual = await sha256(jar);
+  if (actual !== expected) {
+    throw new Error(
+      `The checksum of '${jar}' is ${actual}, expected ${expected}`
+    );
+  }
+}
+
+function sha256(file: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    fs.createReadStream(file)
+      .on("error", reject)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
@@ -0,0 +1,336 @@
+import {
+  commands,
+  debug,
+  DebugProtocolMessage,
+  env,
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  QuickPickItem,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+  ViewColumn,
+  WebviewPanel,
+  window,
+  workspace,
+} from "vscode";
+import { ExecuteCommandRequest, LanguageClient } from "vscode-languageclient";
+import { ServerCommands } from "metals-languageclient";
+import { WorkspaceClients } from "./workspace-clients";
+
+("use strict");
+
+export const stacktraceHistoryViewId = "metalsStacktraces";
+// The client command of the server with the HTML of an analyzed stacktrace.
+export const showStacktraceCommand = "metals-show-stacktrace";
+const historyKey = "metals.stacktraceHistory";
+const maxEntries = 50;
+// Number of debug session output lines kept to look for the last exception.
+const maxDebugOutputLines = 1000;
+
+export interface StacktraceEntry {
+  id: string;
+  timestamp: number;
+  firstLine: string;
+  stacktrace: string;
+  source: "clipboard" | "selection" | "file" | "debug console";
+}
+
+// The `output` event of the Debug Adapter Protocol.
+interface DebugOutputEvent {
+  type: "event";
+  event: "output";
+  body: { output: string };
+}
+
+/**
+ * The stacktraces analyzed in this workspace, most recent first.
+ *
+ * Entries are kept in the workspace state and listed in the "Analyzed
+ * stacktraces" view, reopening one analyzes it again since the positions in
+ * the server HTML may be outdated.
+ */
+export class StacktraceHistory implements TreeDataProvider<StacktraceEntry> {
+  private didChange = new EventEmitter<undefined>();
+  onDidChangeTreeData: Event<undefined> = this.didChange.event;
+  private panels: Map<string, WebviewPanel> = new Map();
+  // The entry whose analysis was last requested, until the server answers
+  // with a `metals-show-stacktrace` client command.
+  private pending: StacktraceEntry | undefined;
+  private debugOutput: string[] = [];
+  // The debug session output after its last newline.
+  private debugOutputLine = "";
+
+  constructor(
+    readonly context: ExtensionContext,
+    readonly clients: WorkspaceClients
+  ) {}
+
+  entries(): StacktraceEntry[] {
+    return this.context.workspaceState.get<StacktraceEntry[]>(historyKey, []);
+  }
+
+  getTreeItem(entry: StacktraceEntry): TreeItem {
+    return {
+      label: entry.firstLine,
+      description: new Date(entry.timestamp).toLocaleString(),
+      tooltip: entry.stacktrace.split(/\r?\n/).slice(0, 10).join("\n"),
+      collapsibleState: TreeItemCollapsibleState.None,
+      iconPath: new ThemeIcon("debug-stackframe"),
+      contextValue: "stacktrace",
+      command: {
+        title: "Open stacktrace",
+        command: "metals.stacktrace-history-open",
+        arguments: [entry],
+      },
+    };
+  }
+
+  getChildren(entry?: StacktraceEntry): StacktraceEntry[] {
+    return entry ? [] : this.entries();
+  }
+
+  analyze(
+    stacktrace: string,
+    source: StacktraceEntry["source"]
+  ): Thenable<void> {
+    if (stacktrace.trim().length < 1) {
+      window.showInformationMessage(
+        `The ${source} doesn't contain a stacktrace to analyze`
+      );
+      return Promise.resolve();
+    }
+    const entry: StacktraceEntry = {
+      id: `${Date.now()}`,
+      timestamp: Date.now(),
+      firstLine: firstExceptionLine(stacktrace),
+      stacktrace,
+      source,
+    };
+    return this.save([entry].concat(this.entries())).then(() =>
+      this.open(entry)
+    );
+  }
+
+  open(entry: StacktraceEntry): Thenable<void> {
+    return this.clients.select().then((client) => {
+      if (client) {
+        this.pending = entry;
+        return sendAnalyzeStacktrace(client, entry.stacktrace).then(
+          undefined,
+          (error) => {
+            if (this.pending === entry) this.pending = undefined;
+            throw error;
+          }
+        );
+      }
+    });
+  }
+
+  /**
+   * Shows the server HTML for the pending entry in its own panel, and any
+   * other HTML, e.g. from a code action of the server, in a shared panel.
+   */
+  show(html: string): void {
+    const entry = this.pending;
+    this.pending = undefined;
+    const id = entry?.id ?? "";
+    let panel = this.panels.get(id);
+    if (!panel) {
+      panel = window.createWebviewPanel(
+        "metals-stacktrace",
+        entry ? `Stacktrace: ${entry.firstLine}` : "Analyze Stacktrace",
+        ViewColumn.Beside,
+        { enableCommandUris: true }
+      );
+      this.panels.set(id, panel);
+      this.context.subscriptions.push(panel);
+      panel.onDidDispose(() => {
+        this.panels.delete(id);
+      });
+    }
+    panel.webview.html = html;
+    panel.reveal();
+  }
+
+  remove(entry: StacktraceEntry): Thenable<void> {
+    return this.save(this.entries().filter(({ id }) => id !== entry.id));
+  }
+
+  clear(): Thenable<void> {
+    return this.save([]);
+  }
+
+  search(): Thenable<void> {
+    const picks = this.entries().map((entry) => ({
+      label: entry.firstLine,
+      description: new Date(entry.timestamp).toLocaleString(),
+      detail: entry.stacktrace.split(/\r?\n/).slice(1, 3).join(" "),
+      entry,
+    }));
+    return window
+      .showQuickPick<QuickPickItem & { entry: StacktraceEntry }>(picks, {
+        placeHolder: "Search the analyzed stacktraces",
+        matchOnDescription: true,
+        matchOnDetail: true,
+      })
+      .then((pick) => (pick ? this.open(pick.entry) : undefined));
+  }
+
+  /**
+   * Keeps the output of Scala debug sessions to analyze their last exception.
+   * The output comes in chunks that may end in the middle of a line.
+   */
+  trackDebugOutput(message: DebugProtocolMessage): void {
+    const event: Partial<DebugOutputEvent> = message;
+    if (
+      event.type === "event" &&
+      event.event === "output" &&
+      typeof event.body?.output === "string"
+    ) {
+      const lines = (this.debugOutputLine + event.body.output).split(/\r?\n/);
+      this.debugOutputLine = lines.pop() ?? "";
+      this.debugOutput = this.debugOutput
+        .concat(lines)
+        .slice(-maxDebugOutputLines);
+    }
+  }
+
+  lastDebugStacktrace(): string {
+    return extractLastStacktrace(
+      this.debugOutputLine
+        ? this.debugOutput.concat(this.debugOutputLine)
+        : this.debugOutput
+    );
+  }
+
+  private save(entries: StacktraceEntry[]): Thenable<void> {
+    return this.context.workspaceState
+      .update(historyKey, entries.slice(0, maxEntries))
+      .then(() => this.didChange.fire(undefined));
+  }
+}
+
+export function startStacktraceHistory(
+  context: ExtensionContext,
+  clients: WorkspaceClients
+): StacktraceHistory {
+  const history = new StacktraceHistory(context, clients);
+  function registerCommand(command: string, callback: (...args: any[]) => any) {
+    context.subscriptions.push(commands.registerCommand(command, callback));
+  }
+
+  context.subscriptions.push(
+    window.registerTreeDataProvider(stacktraceHistoryViewId, history),
+    debug.registerDebugAdapterTrackerFactory("scala", {
+      createDebugAdapterTracker: () => ({
+        onDidSendMessage: (message) => history.trackDebugOutput(message),
+      }),
+    })
+  );
+
+  registerCommand(`metals.${ServerCommands.AnalyzeStacktrace}`, () =>
+    env.clipboard.readText().then((clip) => {
+      if (clip.trim().length < 1) {
+        window.showInformationMessage(
+          "Clipboard appears to be empty, copy stacktrace to clipboard and retry this command"
+        );
+      } else {
+        return history.analyze(clip, "clipboard");
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    commands.registerTextEditorCommand(
+      "metals.analyze-stacktrace-selection",
+      (editor) => {
+        const text = editor.selections
+          .map((selection) => editor.document.getText(selection))
+          .join("\n");
+        return history.analyze(text, "selection");
+      }
+    )
+  );
+
+  registerCommand("metals.analyze-stacktrace-file", (file?: Uri) => {
+    const uri: Thenable<Uri | undefined> = file
+      ? Promise.resolve(file)
+      : window
+          .showOpenDialog({
+            canSelectMany: false,
+            openLabel: "Analyze stacktrace",
+          })
+          .then((uris) => uris?.[0]);
+    return uri.then((selected) =>
+      selected
+        ? workspace.fs
+            .readFile(selected)
+            .then((content) =>
+              history.analyze(Buffer.from(content).toString("utf8"), "file")
+            )
+        : undefined
+    );
+  });
+
+  registerCommand("metals.analyze-stacktrace-debug-console", () =>
+    history.analyze(history.lastDebugStacktrace(), "debug console")
+  );
+
+  registerCommand("metals.stacktrace-history-open", (entry: StacktraceEntry) =>
+    history.open(entry)
+  );
+
+  registerCommand(
+    "metals.stacktrace-history-remove",
+    (entry: StacktraceEntry) => history.remove(entry)
+  );
+
+  registerCommand("metals.stacktrace-history-clear", () => history.clear());
+
+  registerCommand("metals.stacktrace-history-search", () => history.search());
+
+  return history;
+}
+
+function sendAnalyzeStacktrace(
+  client: LanguageClient,
+  stacktrace: string
+): Thenable<void> {
+  return client.sendRequest(ExecuteCommandRequest.type, {
+    command: ServerCommands.AnalyzeStacktrace,
+    arguments: [stacktrace],
+  });
+}
+
+const exceptionLine = /^(Exception in thread "[^"]*" )?([\w$]+\.)*[\w$]*(Exception|Error|Throwable)\b/;
+const frameLine = /^\s+(at |\.\.\. \d+ more)|^Caused by: /;
+
+// The first line naming an exception, e.g. `java.lang.IllegalStateException: boom`.
+export function firstExceptionLine(stacktrace: string): string {
+  const lines = stacktrace
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const line = lines.find((line) => exceptionLine.test(line)) ?? lines[0] ?? "";
+  return line.length > 120 ? `${line.substring(0, 117)}...` : line;
+}
+
+// The last exception followed by its frames in some console output.
+export function extractLastStacktrace(lines: string[]): string {
+  for (let start = lines.length - 1; start >= 0; start--) {
+    if (
+      exceptionLine.test(lines[start].trim()) &&
+      start + 1 < lines.length &&
+      frameLine.test(lines[start + 1])
+    ) {
+      let end = start + 1;
+      while (end < lines.length && frameLine.test(lines[end])) end++;
+      return lines.slice(start, end).join("\n");
+    }
+  }
+  return "";
+}
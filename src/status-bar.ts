@@ -0,0 +1,330 @@
+import {
+  commands,
+  Disposable,
+  Event,
+  EventEmitter,
+  QuickPickItem,
+  StatusBarAlignment,
+  StatusBarItem,
+  window,
+} from "vscode";
+import {
+  ExecuteCommandRequest,
+  LanguageClient,
+  State,
+} from "vscode-languageclient";
+import {
+  MetalsStatusParams,
+  MetalsTreeViewChildren,
+  MetalsTreeViewNode,
+  restartServer,
+  ServerCommands,
+} from "metals-languageclient";
+import { fetchBuildTargets, packagesViewId } from "./treeview";
+
+("use strict");
+
+export const compileViewId = "metalsCompile";
+
+let nextId = 0;
+
+type ServerState = "starting" | "ready" | "stopped";
+
+// Whether the server has a build server, known from its build targets.
+type BuildServerState = "unknown" | "connected" | "disconnected";
+
+interface StatusAction extends QuickPickItem {
+  run: () => unknown;
+}
+
+/**
+ * The status bar items of a Metals server: the state of the server, the
+ * build server it's connected to and the number of ongoing compilations.
+ *
+ * The server is connected to a build server when it has build targets, the
+ * name of the build server is only known from the doctor. Compilations are
+ * counted when the "Ongoing compilations" view changes.
+ *
+ * Clicking an item opens a menu with the actions related to it.
+ */
+export class MetalsStatusBar implements Disposable {
+  private readonly server: StatusBarItem;
+  private readonly buildServer: StatusBarItem;
+  private readonly compilations: StatusBarItem;
+  private readonly disposables: Disposable[] = [];
+  private readonly didCountCompilations = new EventEmitter<
+    MetalsTreeViewNode[]
+  >();
+  // Fired with the nodes of the "Ongoing compilations" view once counted.
+  readonly onDidCountCompilations: Event<MetalsTreeViewNode[]> = this
+    .didCountCompilations.event;
+  private state: ServerState = "starting";
+  private message: MetalsStatusParams | undefined;
+  private buildServerState: BuildServerState = "unknown";
+  private buildServerName: string | undefined;
+  private compilationCount = 0;
+  private isCounting = false;
+  private isCountOutdated = false;
+
+  constructor(readonly client: LanguageClient, readonly label: string) {
+    const id = nextId++;
+    this.server = window.createStatusBarItem(StatusBarAlignment.Right, 100);
+    this.buildServer = window.createStatusBarItem(StatusBarAlignment.Right, 99);
+    this.compilations = window.createStatusBarItem(
+      StatusBarAlignment.Right,
+      98
+    );
+    this.server.command = `metals.status-bar-${id}-server`;
+    this.buildServer.command = `metals.status-bar-${id}-build-server`;
+    this.compilations.command = `metals.status-bar-${id}-compilations`;
+    this.disposables.push(
+      this.server,
+      this.buildServer,
+      this.compilations,
+      this.didCountCompilations,
+      commands.registerCommand(this.server.command, () =>
+        this.showActions(this.serverActions())
+      ),
+      commands.registerCommand(this.buildServer.command, () =>
+        this.showActions(this.buildServerActions())
+      ),
+      commands.registerCommand(this.compilations.command, () =>
+        this.showActions(this.compilationActions())
+      ),
+      client.onDidChangeState(({ newState }) => {
+        this.state =
+          newState === State.Running
+            ? "ready"
+            : newState === State.Starting
+            ? "starting"
+            : "stopped";
+        if (this.state === "ready") this.syncBuildServer();
+        else this.buildServerState = "unknown";
+        this.render();
+      })
+    );
+    this.render();
+  }
+
+  // Called with each `metals/status` notification.
+  onStatus(params: MetalsStatusParams): void {
+    if (params.show) {
+      this.message = params;
+    } else if (params.hide) {
+      this.message = undefined;
+    } else if (this.message) {
+      this.message = { ...this.message, ...params };
+    }
+    this.render();
+  }
+
+  // Called with the nodes of each `metals/treeViewDidChange` notification.
+  onTreeViewDidChange(nodes: MetalsTreeViewNode[]): void {
+    if (nodes.some((node) => node.viewId === compileViewId)) {
+      this.countCompilations();
+    }
+    if (nodes.some((node) => node.viewId === packagesViewId)) {
+      this.syncBuildServer();
+    }
+  }
+
+  // Called with the build server of the doctor results, e.g. `Bloop v1.4.8`.
+  setBuildServerName(name: string | undefined): void {
+    this.buildServerName = name;
+    this.render();
+  }
+
+  // Looks for build targets, there are none without a build server.
+  syncBuildServer(): Thenable<void> {
+    return fetchBuildTargets(this.client).then(
+      (targets) => {
+        this.buildServerState =
+          targets.length > 0 ? "connected" : "disconnected";
+        this.render();
+      },
+      () => undefined
+    );
+  }
+
+  // Counts the nodes of the "Ongoing compilations" view.
+  countCompilations(): void {
+    if (this.isCounting) {
+      this.isCountOutdated = true;
+      return;
+    }
+    this.isCounting = true;
+    this.client
+      .sendRequest(MetalsTreeViewChildren.type, { viewId: compileViewId })
+      .then(
+        ({ nodes }) => {
+          this.compilationCount = nodes.length;
+          this.didCountCompilations.fire(nodes);
+        },
+        () => undefined
+      )
+      .then(() => {
+        this.isCounting = false;
+        this.render();
+        if (this.isCountOutdated) {
+          this.isCountOutdated = false;
+          this.countCompilations();
+        }
+      });
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private render(): void {
+    const name = this.label;
+    if (this.state === "starting") {
+      this.server.text = `$(sync~spin) ${name}`;
+      this.server.tooltip = `${name} is starting`;
+    } else if (this.state === "stopped") {
+      this.server.text = `$(error) ${name}`;
+      this.server.tooltip = `${name} is not running`;
+    } else if (this.message) {
+      this.server.text = this.message.text;
+      this.server.tooltip = this.message.tooltip ?? `${name} is ready`;
+    } else {
+      this.server.text = `$(check) ${name}`;
+      this.server.tooltip = `${name} is ready`;
+    }
+    this.server.show();
+
+    if (this.state === "ready") {
+      const buildServer = this.buildServerName ?? "a build server";
+      if (this.buildServerState === "connected") {
+        this.buildServer.text = `$(server) ${
+          this.buildServerName ?? "Build server"
+        }`;
+        this.buildServer.tooltip = this.buildServerName
+          ? `${name} is connected to ${this.buildServerName}`
+          : `${name} is connected to a build server, run the doctor to see which one`;
+      } else if (this.buildServerState === "disconnected") {
+        this.buildServer.text = "$(debug-disconnect) No build server";
+        this.buildServer.tooltip = `${name} isn't connected to a build server`;
+      } else {
+        this.buildServer.text = "$(sync~spin) Build server";
+        this.buildServer.tooltip = `${name} is connecting to ${buildServer}`;
+      }
+      this.buildServer.show();
+    } else {
+      this.buildServer.hide();
+    }
+
+    if (this.state === "ready" && this.compilationCount > 0) {
+      this.compilations.text = `$(gear~spin) ${this.compilationCount}`;
+      this.compilations.tooltip =
+        this.compilationCount === 1
+          ? "1 ongoing compilation"
+          : `${this.compilationCount} ongoing compilations`;
+      this.compilations.show();
+    } else {
+      this.compilations.hide();
+    }
+  }
+
+  private showActions(actions: StatusAction[]): Thenable<unknown> {
+    return window
+      .showQuickPick(actions, { placeHolder: this.label })
+      .then((action) => action?.run());
+  }
+
+  private serverActions(): StatusAction[] {
+    const actions: StatusAction[] = [];
+    const message = this.message;
+    if (message?.command) {
+      const command = message.command;
+      actions.push({
+        label: `$(play) ${stripIcons(message.text)}`,
+        description: message.tooltip,
+        run: () => this.sendCommand(command),
+      });
+    }
+    return actions.concat(
+      {
+        label: "$(debug-restart) Restart server",
+        run: () =>
+          restartServer(
+            // NOTE(gabro): this is due to mismatching versions of vscode-languageserver-protocol
+            // which are not trivial to fix, currently
+            // @ts-ignore
+            this.client,
+            window
+          )(),
+      },
+      {
+        label: "$(output) Show logs",
+        run: () => this.client.outputChannel.show(true),
+      },
+      {
+        label: "$(list-filter) Open log viewer",
+        run: () => commands.executeCommand("metals.show-log-viewer"),
+      },
+      {
+        label: "$(pulse) Run doctor",
+        run: () => this.sendCommand(ServerCommands.DoctorRun),
+      }
+    );
+  }
+
+  // The build server may have changed once the commands are done.
+  private buildServerActions(): StatusAction[] {
+    const run = (command: string) => () =>
+      this.sendCommand(command).then(() => this.syncBuildServer());
+    return [
+      {
+        label: "$(arrow-swap) Switch build server",
+        run: run(ServerCommands.BspSwitch),
+      },
+      {
+        label: "$(cloud-download) Import build",
+        run: run(ServerCommands.BuildImport),
+      },
+      {
+        label: "$(debug-restart) Restart build server",
+        run: run(ServerCommands.BuildRestart),
+      },
+      this.buildServerState === "disconnected"
+        ? {
+            label: "$(plug) Connect to build server",
+            run: run(ServerCommands.BuildConnect),
+          }
+        : {
+            label: "$(debug-disconnect) Disconnect from build server",
+            run: run(ServerCommands.BuildDisconnect),
+          },
+    ];
+  }
+
+  private compilationActions(): StatusAction[] {
+    return [
+      {
+        label: "$(stop) Cancel compilation",
+        run: () => this.sendCommand(ServerCommands.CancelCompilation),
+      },
+      {
+        label: "$(list-tree) Show ongoing compilations",
+        run: () => commands.executeCommand(`${compileViewId}.focus`),
+      },
+      {
+        label: "$(graph) Show compilation dashboard",
+        run: () => commands.executeCommand("metals.show-compilation-dashboard"),
+      },
+      {
+        label: "$(output) Show logs",
+        run: () => this.client.outputChannel.show(true),
+      },
+    ];
+  }
+
+  private sendCommand(command: string): Thenable<unknown> {
+    return this.client.sendRequest(ExecuteCommandRequest.type, { command });
+  }
+}
+
+function stripIcons(text: string): string {
+  return text.replace(/\$\([\w~-]+\)/g, "").trim();
+}
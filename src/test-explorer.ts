@@ -0,0 +1,445 @@
+import {
+  CancellationToken,
+  debug,
+  DebugProtocolMessage,
+  Disposable,
+  Event,
+  TestController,
+  TestItem,
+  TestMessage,
+  TestRun,
+  TestRunProfileKind,
+  TestRunRequest,
+  tests,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
+import { LanguageClient } from "vscode-languageclient";
+import { MetalsTreeViewNode } from "metals-languageclient";
+import * as scalaDebugger from "./scalaDebugger";
+import {
+  fetchBuildTargets,
+  fetchToplevels,
+  parseNodeUri,
+  testSuitePattern,
+  testTargetPattern,
+  toFullyQualifiedName,
+} from "./treeview";
+
+("use strict");
+
+// Passed along with the launch configuration to recognise test sessions.
+const testRunKey = "metalsTestRunId";
+
+type TestData =
+  | { kind: "target"; target: string }
+  | { kind: "suite"; target: string; className: string }
+  | { kind: "test"; target: string; className: string; testName: string };
+
+/**
+ * Summary of a test suite sent by the debug adapter in a `testResult` event.
+ */
+interface TestSuiteSummary {
+  suiteName: string;
+  duration: number;
+  tests: SingleTestSummary[];
+}
+
+interface SingleTestSummary {
+  kind: "passed" | "failed" | "skipped" | "ignored";
+  testName: string;
+  duration?: number;
+  error?: string;
+}
+
+// The debug session parameters of the test suites of a build target.
+type TestSessionParameters = { targets: { uri: string }[] } & (
+  | { dataKind: "scala-test-suites"; data: string[] }
+  | {
+      dataKind: "scala-test-suites-selection";
+      data: {
+        suites: { className: string; tests: string[] }[];
+        jvmOptions: string[];
+        environmentVariables: string[];
+      };
+    }
+);
+
+// The events of the debug adapter the test runs report.
+type DebugAdapterEvent =
+  | { type: "event"; event: "output"; body: { output: string } }
+  | { type: "event"; event: "testResult"; body: { data: TestSuiteSummary } };
+
+interface SessionRun {
+  run: TestRun;
+  suites: Map<string, TestItem>;
+}
+
+let nextRunId = 0;
+
+export function startTestExplorer(
+  client: LanguageClient,
+  folder: WorkspaceFolder,
+  label: string,
+  onDidCompile: Event<void>
+): Disposable[] {
+  const controller = tests.createTestController(
+    `metals:${folder.uri.toString()}`,
+    label
+  );
+  const explorer = new MetalsTestExplorer(client, controller);
+  return [
+    controller,
+    controller.createRunProfile(
+      "Run",
+      TestRunProfileKind.Run,
+      (request, token) => explorer.run(true, request, token),
+      true
+    ),
+    controller.createRunProfile(
+      "Debug",
+      TestRunProfileKind.Debug,
+      (request, token) => explorer.run(false, request, token),
+      true
+    ),
+    debug.registerDebugAdapterTrackerFactory("scala", {
+      createDebugAdapterTracker: (session) =>
+        explorer.trackerFor(session.configuration[testRunKey]),
+    }),
+    onDidCompile(() => explorer.refresh()),
+    workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration("metals.testTargetPattern") ||
+        event.affectsConfiguration("metals.testSuitePattern")
+      ) {
+        explorer.refresh();
+      }
+    }),
+  ];
+}
+
+/**
+ * Lists the test suites of the Packages view per build target and runs them
+ * through the Metals debug adapter. Single tests are only known once their
+ * suite has been run, from the results of the debug adapter.
+ */
+class MetalsTestExplorer {
+  private readonly data: WeakMap<TestItem, TestData> = new WeakMap();
+  private readonly sessions: Map<string, SessionRun> = new Map();
+  private readonly resolvedTargets: Set<string> = new Set();
+  private rootResolved = false;
+
+  constructor(
+    readonly client: LanguageClient,
+    readonly controller: TestController
+  ) {
+    controller.resolveHandler = (item) => this.resolve(item);
+  }
+
+  // Rediscover the suites that were already listed after each compilation.
+  refresh(): Thenable<void> {
+    if (!this.rootResolved) return Promise.resolve();
+    return this.resolve(undefined).then(() => {
+      const targets: TestItem[] = [];
+      this.controller.items.forEach((item) => {
+        if (this.resolvedTargets.has(item.id)) targets.push(item);
+      });
+      return Promise.all(targets.map((item) => this.resolve(item))).then(
+        () => undefined
+      );
+    });
+  }
+
+  resolve(item: TestItem | undefined): Thenable<void> {
+    if (!item) {
+      this.rootResolved = true;
+      return this.resolveTargets();
+    }
+    const data = this.data.get(item);
+    if (data?.kind === "target") {
+      this.resolvedTargets.add(item.id);
+      item.busy = true;
+      return this.resolveSuites(item, data.target).then(
+        () => {
+          item.busy = false;
+        },
+        () => {
+          item.busy = false;
+        }
+      );
+    }
+    return Promise.resolve();
+  }
+
+  private resolveTargets(): Thenable<void> {
+    return fetchBuildTargets(this.client).then((targets) => {
+      const items: TestItem[] = [];
+      const pattern = testTargetPattern();
+      targets.forEach((node) => {
+        const target = node.nodeUri && parseNodeUri(node.nodeUri);
+        if (!node.nodeUri || !target || !pattern.test(node.label)) return;
+        const item =
+          this.controller.items.get(node.nodeUri) ??
+          this.controller.createTestItem(node.nodeUri, node.label);
+        item.canResolveChildren = true;
+        this.data.set(item, { kind: "target", target: target.key });
+        items.push(item);
+      });
+      this.controller.items.replace(items);
+    });
+  }
+
+  private resolveSuites(item: TestItem, target: string): Thenable<void> {
+    return this.findSuites(item.id).then((nodes) => {
+      const suites: TestItem[] = [];
+      nodes.forEach((node) => {
+        const parsed = node.nodeUri && parseNodeUri(node.nodeUri);
+        if (!node.nodeUri || !parsed) return;
+        const className = toFullyQualifiedName(parsed.symbol);
+        const suite =
+          item.children.get(node.nodeUri) ??
+          this.controller.createTestItem(node.nodeUri, node.label);
+        suite.description = className;
+        this.data.set(suite, { kind: "suite", target, className });
+        suites.push(suite);
+      });
+      item.children.replace(suites);
+    });
+  }
+
+  private findSuites(nodeUri: string): Thenable<MetalsTreeViewNode[]> {
+    const pattern = testSuitePattern();
+    return fetchToplevels(this.client, nodeUri).then((toplevels) =>
+      toplevels.filter((node) => pattern.test(node.label))
+    );
+  }
+
+  async run(
+    noDebug: boolean,
+    request: TestRunRequest,
+    token: CancellationToken
+  ): Promise<void> {
+    const run = this.controller.createTestRun(request);
+    const targets = await this.collect(request);
+    for (const [target, { suites, tests }] of targets) {
+      if (token.isCancellationRequested) break;
+      if (suites.length > 0) {
+        suites.forEach((suite) => {
+          run.enqueued(suite);
+          suite.children.forEach((test) => run.enqueued(test));
+        });
+        await this.runSession(
+          noDebug,
+          {
+            targets: [{ uri: target }],
+            dataKind: "scala-test-suites",
+            data: suites.map((suite) => this.className(suite)),
+          },
+          run,
+          suites,
+          token
+        );
+      }
+      if (tests.length > 0 && !token.isCancellationRequested) {
+        tests.forEach((test) => run.enqueued(test));
+        const selected: Map<string, string[]> = new Map();
+        tests.forEach((test) => {
+          const data = this.data.get(test);
+          if (data?.kind === "test") {
+            const names = selected.get(data.className) ?? [];
+            selected.set(data.className, names.concat(data.testName));
+          }
+        });
+        await this.runSession(
+          noDebug,
+          {
+            targets: [{ uri: target }],
+            dataKind: "scala-test-suites-selection",
+            data: {
+              suites: Array.from(selected).map(([className, tests]) => ({
+                className,
+                tests,
+              })),
+              jvmOptions: [],
+              environmentVariables: [],
+            },
+          },
+          run,
+          Array.from(new Set(tests.map((test) => test.parent))).filter(
+            isDefined
+          ),
+          token
+        );
+      }
+    }
+    run.end();
+  }
+
+  trackerFor(runId: string | undefined) {
+    const session = runId ? this.sessions.get(runId) : undefined;
+    if (!session) return undefined;
+    return {
+      onDidSendMessage: (message: DebugProtocolMessage) =>
+        this.onDidSendMessage(session, message),
+    };
+  }
+
+  // Groups the requested suites and single tests per build target.
+  private async collect(
+    request: TestRunRequest
+  ): Promise<Map<string, { suites: TestItem[]; tests: TestItem[] }>> {
+    const excluded = new Set(request.exclude ?? []);
+    const result: Map<
+      string,
+      { suites: TestItem[]; tests: TestItem[] }
+    > = new Map();
+    const included: TestItem[] = [];
+    if (request.include) {
+      included.push(...request.include);
+    } else {
+      this.controller.items.forEach((item) => included.push(item));
+    }
+    for (const item of included) {
+      if (excluded.has(item)) continue;
+      const data = this.data.get(item);
+      if (!data) continue;
+      const group = result.get(data.target) ?? { suites: [], tests: [] };
+      result.set(data.target, group);
+      if (data.kind === "target") {
+        if (!this.resolvedTargets.has(item.id)) await this.resolve(item);
+        item.children.forEach((suite) => {
+          if (!excluded.has(suite)) group.suites.push(suite);
+        });
+      } else if (data.kind === "suite") {
+        group.suites.push(item);
+      } else {
+        group.tests.push(item);
+      }
+    }
+    return result;
+  }
+
+  private runSession(
+    noDebug: boolean,
+    parameters: TestSessionParameters,
+    run: TestRun,
+    suites: TestItem[],
+    token: CancellationToken
+  ): Promise<void> {
+    const runId = `${this.controller.id}:${nextRunId++}`;
+    const bySuite: Map<string, TestItem> = new Map();
+    suites.forEach((suite) => {
+      run.started(suite);
+      bySuite.set(this.className(suite), suite);
+    });
+    this.sessions.set(runId, { run, suites: bySuite });
+    return new Promise((resolve) => {
+      const subscriptions: Disposable[] = [];
+      const finish = () => {
+        subscriptions.forEach((disposable) => disposable.dispose());
+        this.sessions.delete(runId);
+        resolve();
+      };
+      subscriptions.push(
+        debug.onDidStartDebugSession((session) => {
+          if (session.configuration[testRunKey] === runId) {
+            subscriptions.push(
+              token.onCancellationRequested(() => debug.stopDebugging(session))
+            );
+          }
+        }),
+        debug.onDidTerminateDebugSession((session) => {
+          if (session.configuration[testRunKey] === runId) finish();
+        })
+      );
+      scalaDebugger
+        .startSession(this.client, noDebug, [parameters], {
+          [testRunKey]: runId,
+        })
+        .then(
+          (started) => {
+            if (!started) {
+              suites.forEach((suite) =>
+                run.errored(suite, new TestMessage("Test session not started"))
+              );
+              finish();
+            }
+          },
+          (reason) => {
+            const message =
+              reason instanceof Error ? reason.message : `${reason}`;
+            suites.forEach((suite) =>
+              run.errored(suite, new TestMessage(message))
+            );
+            finish();
+          }
+        );
+    });
+  }
+
+  private onDidSendMessage(
+    { run, suites }: SessionRun,
+    message: DebugProtocolMessage
+  ): void {
+    const event = message as Partial<DebugAdapterEvent>;
+    if (event.type !== "event") return;
+    if (event.event === "output" && typeof event.body?.output === "string") {
+      run.appendOutput(event.body.output.replace(/\r?\n/g, "\r\n"));
+    } else if (event.event === "testResult" && event.body?.data) {
+      const summary = event.body.data;
+      const suite = suites.get(summary.suiteName);
+      if (suite) this.report(run, suite, summary);
+    }
+  }
+
+  private report(run: TestRun, suite: TestItem, summary: TestSuiteSummary) {
+    const data = this.data.get(suite);
+    if (data?.kind !== "suite") return;
+    let failed = false;
+    summary.tests.forEach((result) => {
+      const testName = result.testName.startsWith(`${summary.suiteName}.`)
+        ? result.testName.substring(summary.suiteName.length + 1)
+        : result.testName;
+      const id = `${suite.id}/${testName}`;
+      let test = suite.children.get(id);
+      if (!test) {
+        test = this.controller.createTestItem(id, testName);
+        this.data.set(test, { ...data, kind: "test", testName });
+        suite.children.add(test);
+      }
+      switch (result.kind) {
+        case "passed":
+          run.passed(test, result.duration);
+          break;
+        case "failed":
+          failed = true;
+          run.failed(
+            test,
+            new TestMessage(result.error ?? "Test failed"),
+            result.duration
+          );
+          break;
+        default:
+          run.skipped(test);
+      }
+    });
+    if (failed) {
+      run.failed(
+        suite,
+        new TestMessage(`Some tests failed in ${summary.suiteName}`),
+        summary.duration
+      );
+    } else {
+      run.passed(suite, summary.duration);
+    }
+  }
+
+  private className(suite: TestItem): string {
+    const data = this.data.get(suite);
+    return data && data.kind !== "target" ? data.className : suite.label;
+  }
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
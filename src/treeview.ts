@@ -13,6 +13,10 @@ import {
   TreeView,
   ExtensionContext,
   ThemeIcon,
+  commands,
+  Location,
+  SymbolInformation,
+  workspace,
 } from "vscode";
 import {
   MetalsTreeViews,
@@ -25,22 +29,22 @@ import {
   MetalsTreeViewChildren,
 } from "metals-languageclient";
 
+/**
+ * `onDidChange` is called with the nodes of each `metals/treeViewDidChange`
+ * notification, the client only takes one handler per notification.
+ */
 export function startTreeView(
   client: LanguageClient,
   out: OutputChannel,
   context: ExtensionContext,
-  viewIds: string[]
+  viewIds: string[],
+  onDidChange: (nodes: MetalsTreeViewNode[]) => void = () => undefined
 ): MetalsTreeViews {
   const allProviders: Map<string, MetalsTreeDataProvider> = new Map();
   const allViews: Map<string, TreeView<string>> = new Map();
-  const expandedNodes: Map<string, Set<string>> = new Map();
+  const expandedNodes = new ExpandedTreeNodes(context);
   function expandedNode(viewId: string): Set<string> {
-    let isExpanded = expandedNodes.get(viewId);
-    if (!isExpanded) {
-      isExpanded = new Set();
-      expandedNodes.set(viewId, isExpanded);
-    }
-    return isExpanded;
+    return expandedNodes.of(viewId);
   }
   const disposables = viewIds.map((viewId) => {
     const provider = new MetalsTreeDataProvider(
@@ -48,7 +52,8 @@ export function startTreeView(
       out,
       viewId,
       allProviders,
-      context
+      context,
+      expandedNodes
     );
     allProviders.set(viewId, provider);
     const view = window.createTreeView(viewId, {
@@ -65,7 +70,9 @@ export function startTreeView(
       });
     });
     const onDidChangeExpandNode = view.onDidExpandElement((e) => {
-      expandedNode(viewId).add(e.element);
+      // The favourites are only known to the Packages view.
+      if (e.element.startsWith(favouritesUri)) return;
+      expandedNodes.add(viewId, e.element);
       client.sendNotification(MetalsTreeViewNodeCollapseDidChange.type, {
         viewId: viewId,
         nodeUri: e.element,
@@ -73,7 +80,8 @@ export function startTreeView(
       });
     });
     const onDidChangeCollapseNode = view.onDidCollapseElement((e) => {
-      expandedNode(viewId).delete(e.element);
+      if (e.element.startsWith(favouritesUri)) return;
+      expandedNodes.delete(viewId, e.element);
       client.sendNotification(MetalsTreeViewNodeCollapseDidChange.type, {
         viewId: viewId,
         nodeUri: e.element,
@@ -86,14 +94,20 @@ export function startTreeView(
       onDidChangeVisibility,
       onDidChangeExpandNode,
       onDidChangeCollapseNode,
+      ...(viewId === packagesViewId
+        ? registerPackagesCommands(provider, view)
+        : []),
     ];
   });
 
   // Update tree nodes on server notificiations
   client.onNotification(MetalsTreeViewDidChange.type, (params) => {
+    onDidChange(params.nodes);
     params.nodes.forEach((node) => {
       const provider = allProviders.get(node.viewId);
       if (!provider) return;
+      provider.clearCachedChildren();
+      if (node.viewId === packagesViewId) libraryJars.delete(client);
       if (node.nodeUri) {
         provider.items.set(node.nodeUri, node);
       }
@@ -160,35 +174,101 @@ export function startTreeView(
  * metadata about that tree view node such as label, tooltip and icon.
  *
  * This data provider is implemented as a proxy by forwarding request about
- * node children and parents to the Metals server.
+ * node children and parents to the Metals server. The Packages view is
+ * additionally filtered on the client and lists the pinned favourites first.
  */
 class MetalsTreeDataProvider implements TreeDataProvider<string> {
-  didChange = new EventEmitter<string>();
-  onDidChangeTreeData?: Event<string> = this.didChange.event;
+  didChange = new EventEmitter<string | undefined>();
+  onDidChangeTreeData?: Event<string | undefined> = this.didChange.event;
   items: Map<string, MetalsTreeViewNode> = new Map();
+  filter: RegExp | undefined;
+  // Whether the nodes match the filter, by themselves or through their
+  // descendants, cleared when the filter or the tree changes.
+  private readonly filterResults: Map<string, Thenable<boolean>> = new Map();
+  // The nodes shown because of their descendants only.
+  private readonly expandedByFilter: Set<string> = new Set();
+  // The descendants of the nodes matching the filter, which are all shown.
+  private readonly unfiltered: Set<string> = new Set();
+  // The children fetched to search the filter, reused by the next filters
+  // until the tree changes.
+  private readonly searchedChildren: Map<
+    string,
+    Thenable<MetalsTreeViewNode[]>
+  > = new Map();
   constructor(
     readonly client: LanguageClient,
     readonly out: OutputChannel,
     readonly viewId: string,
     readonly views: Map<string, MetalsTreeDataProvider>,
-    readonly context: ExtensionContext
+    readonly context: ExtensionContext,
+    readonly expandedNodes: ExpandedTreeNodes
   ) {}
 
+  get favourites(): MetalsTreeViewNode[] {
+    return this.context.workspaceState.get(favouritesKey, []);
+  }
+
+  pin(nodeUri: string): void {
+    const node = this.items.get(nodeUri);
+    if (!node || this.favourites.some((f) => f.nodeUri === nodeUri)) return;
+    this.updateFavourites(this.favourites.concat(node));
+  }
+
+  unpin(nodeUri: string): void {
+    this.updateFavourites(
+      this.favourites.filter((favourite) => favourite.nodeUri !== nodeUri)
+    );
+  }
+
+  private updateFavourites(favourites: MetalsTreeViewNode[]): void {
+    this.context.workspaceState
+      .update(favouritesKey, favourites)
+      .then(() => this.didChange.fire(undefined));
+  }
+
+  setFilter(filter: RegExp | undefined): void {
+    this.filter = filter;
+    this.clearFilterResults();
+    this.didChange.fire(undefined);
+  }
+
+  clearFilterResults(): void {
+    this.filterResults.clear();
+    this.expandedByFilter.clear();
+    this.unfiltered.clear();
+  }
+
+  clearCachedChildren(): void {
+    this.searchedChildren.clear();
+    this.clearFilterResults();
+  }
+
   // Populate TreeItem based on cached children response from the server.
   getTreeItem(uri: string): TreeItem {
+    if (uri === favouritesUri) {
+      return {
+        label: "Favourites",
+        id: favouritesUri,
+        collapsibleState: TreeItemCollapsibleState.Expanded,
+        iconPath: new ThemeIcon("star-full"),
+        contextValue: "favourites",
+      };
+    }
+    const favourite = this.favouriteOf(uri);
+    if (favourite) return this.favouriteTreeItem(uri, favourite);
     const item = this.items.get(uri);
     if (!item) return {};
     const result: TreeItem = {
       label: item.label,
       id: item.nodeUri,
-      resourceUri:
-        item.nodeUri && item.nodeUri.indexOf(".") > 0
-          ? Uri.parse(item.nodeUri)
-          : undefined,
-      collapsibleState: toTreeItemCollapsibleState(item.collapseState),
+      resourceUri: item.nodeUri ? resourceUriOf(item.nodeUri) : undefined,
+      collapsibleState: this.expandedByFilter.has(uri)
+        ? TreeItemCollapsibleState.Expanded
+        : toTreeItemCollapsibleState(item.collapseState),
       command: item.command,
       tooltip: item.tooltip,
       iconPath: item.icon ? this.iconPath(item.icon) : undefined,
+      contextValue: item.nodeUri ? contextValueOf(item.nodeUri) : undefined,
     };
     result.collapsibleState;
     return result;
@@ -196,6 +276,8 @@ class MetalsTreeDataProvider implements TreeDataProvider<string> {
 
   // Forward get parent request to the server.
   getParent(uri: string): Thenable<string | undefined> {
+    if (uri === favouritesUri) return Promise.resolve(undefined);
+    if (this.favouriteOf(uri)) return Promise.resolve(favouritesUri);
     return this.client
       .sendRequest(MetalsTreeViewParent.type, {
         viewId: this.viewId,
@@ -214,19 +296,153 @@ class MetalsTreeDataProvider implements TreeDataProvider<string> {
 
   // Forward get children request to the server.
   getChildren(uri?: string): Thenable<string[] | undefined> {
+    if (uri === favouritesUri) {
+      return Promise.resolve(
+        this.favourites
+          .map((favourite) => favourite.nodeUri)
+          .filter(notEmpty)
+          .map((nodeUri) => favouritesUri + nodeUri)
+      );
+    }
+    return this.fetchChildren(uri).then((nodes) =>
+      this.filterChildren(uri, nodes).then((filtered) => {
+        const uris = filtered.map((n) => n.nodeUri).filter(notEmpty);
+        if (!uri && this.viewId === packagesViewId && this.favourites.length)
+          return [favouritesUri].concat(uris);
+        return uris;
+      })
+    );
+  }
+
+  private fetchChildren(uri?: string): Thenable<MetalsTreeViewNode[]> {
     return this.client
       .sendRequest(MetalsTreeViewChildren.type, {
         viewId: this.viewId,
         nodeUri: uri,
       })
-      .then((result) => {
-        result.nodes.forEach((n) => {
-          if (n.nodeUri) {
-            this.items.set(n.nodeUri, n);
+      .then((result) =>
+        result.nodes.map((n) => {
+          const node = this.restoreExpanded(n);
+          if (node.nodeUri) {
+            this.items.set(node.nodeUri, node);
           }
-        });
-        return result.nodes.map((n) => n.nodeUri).filter(notEmpty);
-      });
+          return node;
+        })
+      );
+  }
+
+  // Expands again the nodes that were expanded before the window reloaded.
+  private restoreExpanded(node: MetalsTreeViewNode): MetalsTreeViewNode {
+    if (
+      !node.nodeUri ||
+      node.collapseState !== "collapsed" ||
+      !this.expandedNodes.of(this.viewId).has(node.nodeUri)
+    )
+      return node;
+    this.client.sendNotification(MetalsTreeViewNodeCollapseDidChange.type, {
+      viewId: this.viewId,
+      nodeUri: node.nodeUri,
+      collapsed: false,
+    });
+    return { ...node, collapseState: "expanded" };
+  }
+
+  private filterChildren(
+    uri: string | undefined,
+    nodes: MetalsTreeViewNode[]
+  ): Thenable<MetalsTreeViewNode[]> {
+    const filter = this.filter;
+    if (!filter || this.viewId !== packagesViewId)
+      return Promise.resolve(nodes);
+    const parent = uri && this.items.get(uri);
+    if (
+      uri &&
+      (this.unfiltered.has(uri) || (parent && filter.test(parent.label)))
+    ) {
+      nodes.forEach(
+        (node) => node.nodeUri && this.unfiltered.add(node.nodeUri)
+      );
+      return Promise.resolve(nodes);
+    }
+    return Promise.all(
+      nodes.map((node) => this.matchesFilter(node, maxFilterDepth))
+    ).then((matches) => nodes.filter((_, i) => matches[i]));
+  }
+
+  /**
+   * Whether the label of the node or of one of its descendants matches the
+   * filter. The search walks down the build targets, jars and packages, at
+   * most `depth` levels, but stops at the classes, their members aren't
+   * searched.
+   */
+  private matchesFilter(
+    node: MetalsTreeViewNode,
+    depth: number
+  ): Thenable<boolean> {
+    const filter = this.filter;
+    const nodeUri = node.nodeUri;
+    if (!filter || !nodeUri) return Promise.resolve(false);
+    if (filter.test(node.label)) return Promise.resolve(true);
+    const cached = this.filterResults.get(nodeUri);
+    if (cached) return cached;
+    const parsed = parseNodeUri(nodeUri);
+    const isContainer =
+      depth > 0 &&
+      node.collapseState !== undefined &&
+      parsed !== undefined &&
+      isPackageSymbol(parsed.symbol);
+    const result = isContainer
+      ? this.searchChildren(nodeUri).then((children) =>
+          Promise.all(
+            children.map((child) => this.matchesFilter(child, depth - 1))
+          ).then((matches) => {
+            const found = matches.some((match) => match);
+            // The filter may have changed during the search.
+            if (found && this.filter === filter) {
+              this.expandedByFilter.add(nodeUri);
+            }
+            return found;
+          })
+        )
+      : Promise.resolve(false);
+    this.filterResults.set(nodeUri, result);
+    return result;
+  }
+
+  private searchChildren(nodeUri: string): Thenable<MetalsTreeViewNode[]> {
+    let children = this.searchedChildren.get(nodeUri);
+    if (!children) {
+      children = this.fetchChildren(nodeUri);
+      // Fetched again by the next search when it failed.
+      children.then(undefined, () => this.searchedChildren.delete(nodeUri));
+      this.searchedChildren.set(nodeUri, children);
+    }
+    return children;
+  }
+
+  // The pinned node of a child of the favourites node.
+  private favouriteOf(uri: string): MetalsTreeViewNode | undefined {
+    if (!uri.startsWith(favouritesUri) || uri === favouritesUri) return;
+    const nodeUri = uri.substring(favouritesUri.length);
+    return this.favourites.find((favourite) => favourite.nodeUri === nodeUri);
+  }
+
+  private favouriteTreeItem(uri: string, node: MetalsTreeViewNode): TreeItem {
+    const parsed = node.nodeUri ? parseNodeUri(node.nodeUri) : undefined;
+    return {
+      label: node.label,
+      id: uri,
+      description: parsed && ownerName(parsed.key),
+      collapsibleState: TreeItemCollapsibleState.None,
+      command: node.command ?? {
+        command: "metals.packages-reveal",
+        title: "Reveal in the Packages view",
+        arguments: [node.nodeUri],
+      },
+      tooltip: node.tooltip,
+      iconPath: node.icon ? this.iconPath(node.icon) : undefined,
+      contextValue: "favourite",
+    };
   }
 
   icons: Map<string, TreeItem["iconPath"]> = new Map();
@@ -239,11 +455,10 @@ class MetalsTreeDataProvider implements TreeDataProvider<string> {
         this.icons.set(icon, noTheme);
         return noTheme;
       } else {
-        const themed = {
-          dark: this.joinIcon(icon + "-dark"),
-          light: this.joinIcon(icon + "-light"),
-        };
-        if (themed.dark && themed.light) {
+        const dark = this.joinIcon(icon + "-dark");
+        const light = this.joinIcon(icon + "-light");
+        if (dark && light) {
+          const themed = { dark, light };
           this.icons.set(icon, themed);
           return themed;
         }
@@ -259,6 +474,413 @@ class MetalsTreeDataProvider implements TreeDataProvider<string> {
   }
 }
 
+// The build targets and jars are searched down to the packages that deep.
+const maxFilterDepth = 10;
+const favouritesKey = "metals.packagesFavourites";
+const expandedNodesKey = "metals.expandedTreeNodes";
+// The root node of the favourites, whose children are the URIs of the
+// pinned nodes prefixed with it.
+const favouritesUri = "favourites:";
+
+// The expanded nodes of every view, saved in the workspace state so that
+// they're expanded again when the window reloads.
+class ExpandedTreeNodes {
+  private readonly nodes: Map<string, Set<string>> = new Map();
+  constructor(readonly context: ExtensionContext) {
+    const saved = context.workspaceState.get<Record<string, string[]>>(
+      expandedNodesKey,
+      {}
+    );
+    Object.keys(saved).forEach((viewId) =>
+      this.nodes.set(viewId, new Set(saved[viewId]))
+    );
+  }
+
+  of(viewId: string): Set<string> {
+    let isExpanded = this.nodes.get(viewId);
+    if (!isExpanded) {
+      isExpanded = new Set();
+      this.nodes.set(viewId, isExpanded);
+    }
+    return isExpanded;
+  }
+
+  add(viewId: string, nodeUri: string): void {
+    this.of(viewId).add(nodeUri);
+    this.save();
+  }
+
+  delete(viewId: string, nodeUri: string): void {
+    if (this.of(viewId).delete(nodeUri)) this.save();
+  }
+
+  private save(): void {
+    const saved: Record<string, string[]> = {};
+    this.nodes.forEach((nodes, viewId) => {
+      saved[viewId] = Array.from(nodes);
+    });
+    this.context.workspaceState.update(expandedNodesKey, saved);
+  }
+}
+
+function registerPackagesCommands(
+  provider: MetalsTreeDataProvider,
+  view: TreeView<string>
+): Disposable[] {
+  let filterText = "";
+  function applyFilter(text: string, filter: RegExp | undefined): void {
+    filterText = text;
+    provider.setFilter(filter);
+    view.message = filter ? `Filtered by ${text}` : undefined;
+    commands.executeCommand("setContext", "metals:packagesFiltered", !!filter);
+  }
+  // The pinned node URI of a node of the Packages view or of its favourites.
+  function pinnedUri(uri: string): string {
+    return uri.startsWith(favouritesUri)
+      ? uri.substring(favouritesUri.length)
+      : uri;
+  }
+  return [
+    commands.registerCommand("metals.packages-filter", () =>
+      window
+        .showInputBox({
+          prompt:
+            "Filter the build targets and libraries by name, or by a regular expression such as /Foo.*Spec$/",
+          placeHolder: "Name or /regular expression/",
+          value: filterText,
+          validateInput: (text) => {
+            const filter = parseFilter(text);
+            return typeof filter === "string" ? filter : undefined;
+          },
+        })
+        .then((text) => {
+          if (text === undefined) return;
+          const filter = parseFilter(text);
+          if (typeof filter !== "string") applyFilter(text, filter);
+        })
+    ),
+    commands.registerCommand("metals.packages-clear-filter", () =>
+      applyFilter("", undefined)
+    ),
+    commands.registerCommand("metals.packages-pin", (uri?: string) => {
+      if (uri) provider.pin(pinnedUri(uri));
+    }),
+    commands.registerCommand("metals.packages-unpin", (uri?: string) => {
+      if (uri) provider.unpin(pinnedUri(uri));
+    }),
+    commands.registerCommand("metals.packages-reveal", (nodeUri?: string) => {
+      if (nodeUri)
+        view.reveal(nodeUri, { select: true, focus: true, expand: true });
+    }),
+    {
+      dispose: () => {
+        commands.executeCommand("setContext", "metals:packagesFiltered", false);
+      },
+    },
+  ];
+}
+
+/**
+ * A case insensitive filter on the node names, `/Foo.*Spec$/` is a regular
+ * expression and anything else a part of the names. The error message is
+ * returned for invalid regular expressions, and undefined for an empty text.
+ */
+function parseFilter(text: string): RegExp | string | undefined {
+  const trimmed = text.trim();
+  if (trimmed === "") return undefined;
+  const regex = /^\/(.+)\/([imsu]*)$/.exec(trimmed);
+  if (!regex) {
+    return new RegExp(trimmed.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+  }
+  const flags = regex[2].includes("i") ? regex[2] : regex[2] + "i";
+  try {
+    return new RegExp(regex[1], flags);
+  } catch (error) {
+    return `Invalid regular expression: ${error.message}`;
+  }
+}
+
+// The build target of `file:/project/core/?id=core` or the jar of a node key.
+function ownerName(key: string): string {
+  const id = key.indexOf("?id=");
+  if (id >= 0) return key.substring(id + "?id=".length);
+  return path.basename(key.replace(/!\/?$/, ""));
+}
+
+/**
+ * The parts of a node URI such as
+ * `projects:file:/path/?id=root-test!/com/example/FooSuite#`: the scheme of
+ * the root node, the build target or jar and the SemanticDB symbol.
+ */
+export interface MetalsTreeNodeUri {
+  scheme: string;
+  key: string;
+  symbol: string;
+}
+
+export function parseNodeUri(nodeUri: string): MetalsTreeNodeUri | undefined {
+  const colon = nodeUri.indexOf(":");
+  if (colon < 0) return undefined;
+  const scheme = nodeUri.substring(0, colon);
+  const rest = nodeUri.substring(colon + 1);
+  const separator = rest.indexOf("!/");
+  if (separator < 0) return { scheme, key: rest, symbol: "" };
+  return {
+    scheme,
+    key: rest.substring(0, separator),
+    symbol: rest.substring(separator + 2),
+  };
+}
+
+export type MetalsTreeNodeKind =
+  | "buildTarget"
+  | "libraryJar"
+  | "package"
+  | "class"
+  | "method";
+
+// The kind of a node of the Packages view, undefined for the root nodes.
+export function treeNodeKind(nodeUri: string): MetalsTreeNodeKind | undefined {
+  const parsed = parseNodeUri(nodeUri);
+  if (!parsed || parsed.key === "") return undefined;
+  if (parsed.symbol === "") {
+    switch (parsed.scheme) {
+      case "projects":
+        return "buildTarget";
+      case "libraries":
+        return "libraryJar";
+      default:
+        return undefined;
+    }
+  }
+  if (isPackageSymbol(parsed.symbol)) return "package";
+  return parsed.symbol.endsWith(").") ? "method" : "class";
+}
+
+// Only the nodes of files and jar entries are resources, the other node URIs
+// such as `projects:file:/project/?id=core!/com/example/` aren't.
+function resourceUriOf(nodeUri: string): Uri | undefined {
+  if (!/^(file|jar):/.test(nodeUri)) return undefined;
+  try {
+    return Uri.parse(nodeUri, true);
+  } catch (_) {
+    return undefined;
+  }
+}
+
+// The kind of the node, prefixed with `library` for the symbols of the jars,
+// e.g. `libraryClass`, for the `viewItem` of the context menus.
+function contextValueOf(nodeUri: string): string | undefined {
+  const kind = treeNodeKind(nodeUri);
+  if (!kind || kind === "buildTarget" || kind === "libraryJar") return kind;
+  return nodeUri.startsWith("libraries:")
+    ? "library" + kind.charAt(0).toUpperCase() + kind.substring(1)
+    : kind;
+}
+
+// Top-level classes, traits and objects, e.g. `com/example/Foo#`.
+export function isToplevelSymbol(symbol: string): boolean {
+  const name = symbol.substring(symbol.lastIndexOf("/") + 1);
+  return /^[^#.()]+[#.]$/.test(name);
+}
+
+export function isPackageSymbol(symbol: string): boolean {
+  return symbol === "" || symbol.endsWith("/");
+}
+
+// `com/example/Foo#bar().` is in `com/example/Foo#`.
+export function toplevelSymbolOf(symbol: string): string | undefined {
+  const slash = symbol.lastIndexOf("/");
+  const name = /^[^#.]+[#.]/.exec(symbol.substring(slash + 1));
+  return name ? symbol.substring(0, slash + 1) + name[0] : undefined;
+}
+
+// `com/example/Foo#` is `com.example.Foo`.
+export function toFullyQualifiedName(symbol: string): string {
+  return symbol
+    .replace(/^(_empty_|_root_)\//, "")
+    .replace(/[#.]$/, "")
+    .replace(/\//g, ".")
+    .replace(/#/g, ".");
+}
+
+export const packagesViewId = "metalsPackages";
+
+/**
+ * The Packages view doesn't tell test sources apart and Metals doesn't list
+ * the test suites of a build target, build targets and suites are recognised
+ * by their names instead, from `metals.testTargetPattern` and
+ * `metals.testSuitePattern`.
+ */
+export function testTargetPattern(): RegExp {
+  return configuredPattern("testTargetPattern", "test", "i");
+}
+
+export function testSuitePattern(): RegExp {
+  return configuredPattern(
+    "testSuitePattern",
+    "(Suite|Spec|Specs|Test|Tests)$",
+    ""
+  );
+}
+
+// Falls back to the default pattern when the configured one is invalid.
+function configuredPattern(
+  key: string,
+  defaultPattern: string,
+  flags: string
+): RegExp {
+  const pattern =
+    workspace.getConfiguration("metals").get<string>(key) || defaultPattern;
+  try {
+    return new RegExp(pattern, flags);
+  } catch (_) {
+    return new RegExp(defaultPattern, flags);
+  }
+}
+
+// Forward get children request for the Packages view without going through
+// its data provider.
+export function fetchPackagesChildren(
+  client: LanguageClient,
+  nodeUri?: string
+): Thenable<MetalsTreeViewNode[]> {
+  return client
+    .sendRequest(MetalsTreeViewChildren.type, {
+      viewId: packagesViewId,
+      nodeUri,
+    })
+    .then((result) => result.nodes);
+}
+
+// The build target nodes under the "Projects" root node.
+export function fetchBuildTargets(
+  client: LanguageClient
+): Thenable<MetalsTreeViewNode[]> {
+  return fetchPackagesChildren(client).then((roots) => {
+    const projects = roots.find((node) =>
+      node.nodeUri?.startsWith("projects:")
+    );
+    return projects?.nodeUri
+      ? fetchPackagesChildren(client, projects.nodeUri)
+      : [];
+  });
+}
+
+// Looks the class up among the workspace symbols of the server.
+export function locateSymbol(symbol: string): Thenable<Uri | undefined> {
+  const fullyQualifiedName = toFullyQualifiedName(symbol);
+  const name = fullyQualifiedName.substring(
+    fullyQualifiedName.lastIndexOf(".") + 1
+  );
+  return commands
+    .executeCommand<SymbolInformation[]>(
+      "vscode.executeWorkspaceSymbolProvider",
+      name
+    )
+    .then((symbols) => {
+      const location: Location | undefined = (symbols ?? []).find(
+        (information) =>
+          information.name === name &&
+          (information.containerName
+            ? `${information.containerName}.${name}`
+            : name) === fullyQualifiedName
+      )?.location;
+      return location?.uri.scheme === "file" ? location.uri : undefined;
+    });
+}
+
+// The paths of the jars of the "Libraries" root node by name, per client.
+const libraryJars: WeakMap<
+  LanguageClient,
+  Thenable<Map<string, string>>
+> = new WeakMap();
+
+/**
+ * The path of a jar of the "Libraries" root node, e.g.
+ * `scala-library-2.13.5.jar`. The jars are fetched again when the Packages
+ * view changes or when a jar isn't found, the build may have changed.
+ */
+export function findLibraryJar(
+  client: LanguageClient,
+  name: string
+): Thenable<string | undefined> {
+  let jars = libraryJars.get(client);
+  if (!jars) {
+    jars = fetchPackagesChildren(client, "libraries:").then((nodes) => {
+      const byName: Map<string, string> = new Map();
+      nodes
+        .map((node) => node.nodeUri && parseNodeUri(node.nodeUri))
+        .forEach((parsed) => {
+          if (!parsed) return;
+          const jar = Uri.parse(parsed.key).fsPath;
+          byName.set(path.basename(jar), jar);
+        });
+      return byName;
+    });
+    libraryJars.set(client, jars);
+  }
+  return jars.then(
+    (byName) => {
+      const jar = byName.get(name);
+      if (!jar) libraryJars.delete(client);
+      return jar;
+    },
+    () => {
+      libraryJars.delete(client);
+      return undefined;
+    }
+  );
+}
+
+// Walks down the packages under `nodeUri` collecting the top-level classes,
+// traits and objects.
+export function fetchToplevels(
+  client: LanguageClient,
+  nodeUri: string
+): Thenable<MetalsTreeViewNode[]> {
+  return fetchPackagesChildren(client, nodeUri).then((nodes) =>
+    Promise.all(
+      nodes.map((node) => {
+        const parsed = node.nodeUri && parseNodeUri(node.nodeUri);
+        if (!node.nodeUri || !parsed) return [];
+        if (isPackageSymbol(parsed.symbol))
+          return fetchToplevels(client, node.nodeUri);
+        if (isToplevelSymbol(parsed.symbol)) return [node];
+        return [];
+      })
+    ).then((toplevels) => ([] as MetalsTreeViewNode[]).concat(...toplevels))
+  );
+}
+
+// The first top-level class, trait or object under `nodeUri`, if any.
+export function findToplevel(
+  client: LanguageClient,
+  nodeUri: string
+): Thenable<MetalsTreeViewNode | undefined> {
+  return fetchPackagesChildren(client, nodeUri).then((nodes) => {
+    const toplevel = nodes.find(
+      (node) =>
+        node.nodeUri &&
+        isToplevelSymbol(parseNodeUri(node.nodeUri)?.symbol ?? "")
+    );
+    if (toplevel) return toplevel;
+    const packages = nodes.filter(
+      (node) =>
+        node.nodeUri &&
+        isPackageSymbol(parseNodeUri(node.nodeUri)?.symbol ?? "")
+    );
+    // Looks in one package after the other, until a top-level is found.
+    return packages.reduce<Thenable<MetalsTreeViewNode | undefined>>(
+      (found, node) =>
+        found.then((result) =>
+          result || !node.nodeUri ? result : findToplevel(client, node.nodeUri)
+        ),
+      Promise.resolve(undefined)
+    );
+  });
+}
+
 // NOTE(olafur): Copy-pasted from Stack Overflow, would be nice to move it elsewhere.
 function notEmpty<TValue>(value: TValue | null | undefined): value is TValue {
   return value !== null && value !== undefined;
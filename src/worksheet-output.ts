@@ -0,0 +1,326 @@
+import {
+  commands,
+  ExtensionContext,
+  Range,
+  Uri,
+  ViewColumn,
+  WebviewPanel,
+  window,
+  workspace,
+} from "vscode";
+import { PublishDecorationsParams } from "./decoration-protocol";
+
+("use strict");
+
+export interface WorksheetResult {
+  line: number;
+  source: string;
+  name: string;
+  type: string;
+  value: string;
+  hover: string;
+}
+
+type WorksheetOutputMessage =
+  | { command: "export"; format: "markdown" | "json" }
+  | { command: "reveal"; line: number };
+
+/**
+ * The evaluation results of each worksheet, one entry per evaluated line.
+ *
+ * Decorations only show a truncated summary of each result, the side panel
+ * shows the whole value, type and hover of each line as a table.
+ */
+export class WorksheetOutput {
+  private results: Map<string, WorksheetResult[]> = new Map();
+  private panels: Map<string, WebviewPanel> = new Map();
+
+  constructor(readonly context: ExtensionContext) {}
+
+  // Called with the decorations published for a worksheet.
+  update(params: PublishDecorationsParams): void {
+    const uri = Uri.parse(params.uri);
+    const document = workspace.textDocuments.find(
+      (document) => document.uri.toString() === uri.toString()
+    );
+    const results = params.options.map((option) => {
+      const line = option.range.start.line;
+      const source =
+        document && line < document.lineCount ? document.lineAt(line).text : "";
+      return parseResult(line, source, option.hoverMessage?.value ?? "");
+    });
+    this.results.set(uri.toString(), results);
+    const panel = this.panels.get(uri.toString());
+    if (panel) panel.webview.html = this.html(uri, results);
+  }
+
+  show(uri: Uri): void {
+    const key = uri.toString();
+    const results = this.results.get(key);
+    if (!results) {
+      window.showInformationMessage(
+        "This worksheet has not been evaluated yet, save it to evaluate it."
+      );
+      return;
+    }
+    let panel = this.panels.get(key);
+    if (!panel) {
+      panel = window.createWebviewPanel(
+        "metals-worksheet-output",
+        `Output: ${uri.path.substring(uri.path.lastIndexOf("/") + 1)}`,
+        { viewColumn: ViewColumn.Beside, preserveFocus: true },
+        { enableScripts: true }
+      );
+      this.panels.set(key, panel);
+      this.context.subscriptions.push(panel);
+      panel.onDidDispose(() => {
+        this.panels.delete(key);
+      });
+      panel.webview.onDidReceiveMessage((message: WorksheetOutputMessage) => {
+        switch (message.command) {
+          case "export":
+            this.export(uri, message.format);
+            break;
+          case "reveal":
+            window.showTextDocument(uri, {
+              viewColumn: ViewColumn.One,
+              selection: new Range(message.line, 0, message.line, 0),
+            });
+            break;
+        }
+      });
+    }
+    panel.webview.html = this.html(uri, results);
+    panel.reveal(ViewColumn.Beside, true);
+  }
+
+  export(uri: Uri, format: "markdown" | "json"): Thenable<void> {
+    const results = this.results.get(uri.toString()) ?? [];
+    const extension = format === "json" ? "json" : "md";
+    const content =
+      format === "json"
+        ? JSON.stringify(results, null, 2)
+        : toMarkdown(uri, results);
+    return window
+      .showSaveDialog({
+        defaultUri: Uri.file(
+          uri.fsPath.replace(/\.worksheet\.sc$/, `.output.${extension}`)
+        ),
+        filters: format === "json" ? { JSON: ["json"] } : { Markdown: ["md"] },
+      })
+      .then((target) => {
+        if (target) {
+          return workspace.fs
+            .writeFile(target, Buffer.from(content, "utf8"))
+            .then(() => {
+              window.showInformationMessage(
+                `Exported worksheet output to ${target.fsPath}`
+              );
+            });
+        }
+      });
+  }
+
+  private html(uri: Uri, results: WorksheetResult[]): string {
+    const nonce = `${Date.now()}${Math.random()}`.replace(".", "");
+    const rows = results
+      .map(
+        (result) => `<tr data-search="${escapeHtml(
+          `${result.source} ${result.name} ${result.type} ${result.value}`.toLowerCase()
+        )}">
+  <td><a href="#" data-line="${result.line}">${result.line + 1}</a></td>
+  <td><code>${escapeHtml(result.source.trim())}</code></td>
+  <td><code>${escapeHtml(result.type)}</code></td>
+  <td>${codeCell(result.value)}</td>
+  <td>${codeCell(hoverText(result.hover))}</td>
+</tr>`
+      )
+      .join("\n");
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<title>Worksheet output</title>
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; vertical-align: top; padding: 2px 6px; border-bottom: 1px solid var(--vscode-panel-border); }
+  code, pre { font-family: var(--vscode-editor-font-family); white-space: pre-wrap; margin: 0; }
+  .toolbar { display: flex; gap: 6px; margin-bottom: 8px; }
+  input { flex: 1; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border); }
+  button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 2px 8px; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+  <input id="filter" type="text" placeholder="Filter by source, name, type or value">
+  <button id="expand">Expand all</button>
+  <button id="collapse">Collapse all</button>
+  <button id="markdown">Export Markdown</button>
+  <button id="json">Export JSON</button>
+</div>
+<p>${escapeHtml(uri.fsPath)}</p>
+<table>
+<thead><tr><th>Line</th><th>Source</th><th>Type</th><th>Value</th><th>Hover</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  const details = () => Array.from(document.querySelectorAll("details"));
+  document.getElementById("filter").addEventListener("input", (event) => {
+    const query = event.target.value.toLowerCase();
+    document.querySelectorAll("tbody tr").forEach((row) => {
+      row.style.display = row.dataset.search.includes(query) ? "" : "none";
+    });
+  });
+  document.getElementById("expand").addEventListener("click", () => details().forEach((d) => (d.open = true)));
+  document.getElementById("collapse").addEventListener("click", () => details().forEach((d) => (d.open = false)));
+  document.getElementById("markdown").addEventListener("click", () => vscode.postMessage({ command: "export", format: "markdown" }));
+  document.getElementById("json").addEventListener("click", () => vscode.postMessage({ command: "export", format: "json" }));
+  document.querySelectorAll("a[data-line]").forEach((link) =>
+    link.addEventListener("click", () => vscode.postMessage({ command: "reveal", line: Number(link.dataset.line) }))
+  );
+</script>
+</body>
+</html>`;
+  }
+}
+
+export function startWorksheetOutput(
+  context: ExtensionContext
+): WorksheetOutput {
+  const output = new WorksheetOutput(context);
+  context.subscriptions.push(
+    commands.registerTextEditorCommand(
+      "metals.show-worksheet-output",
+      (editor) => {
+        if (isWorksheet(editor.document.uri)) {
+          output.show(editor.document.uri);
+        } else {
+          window.showWarningMessage(
+            "You must be in a worksheet to use this feature."
+          );
+        }
+      }
+    ),
+    commands.registerTextEditorCommand(
+      "metals.export-worksheet-output",
+      (editor) => {
+        if (!isWorksheet(editor.document.uri)) {
+          window.showWarningMessage(
+            "You must be in a worksheet to use this feature."
+          );
+          return;
+        }
+        return window
+          .showQuickPick(["Markdown", "JSON"], {
+            placeHolder: "Pick the format of the exported worksheet output",
+          })
+          .then((format) => {
+            if (format) {
+              return output.export(
+                editor.document.uri,
+                format === "JSON" ? "json" : "markdown"
+              );
+            }
+          });
+      }
+    )
+  );
+  return output;
+}
+
+export function isWorksheet(uri: Uri): boolean {
+  return uri.toString().endsWith(".worksheet.sc");
+}
+
+/**
+ * The hover of an evaluated line is a Scala code block such as
+ * "x: List[Int] = List(1, 2, 3)". The type ends at the first ` = ` outside
+ * of brackets, types such as `Int => Int` or `{ type T = Int }` may contain
+ * `=` but only values may contain a top-level ` = `, e.g. `s: String = a = b`.
+ */
+export function parseResult(
+  line: number,
+  source: string,
+  hover: string
+): WorksheetResult {
+  const details = hoverText(hover);
+  const name = /^([^:=\s]+): /.exec(details);
+  const separator = name ? typeEnd(details, name[0].length) : -1;
+  if (name && separator >= 0) {
+    return {
+      line,
+      source,
+      name: name[1],
+      type: details.substring(name[0].length, separator),
+      value: details.substring(separator + 3),
+      hover,
+    };
+  }
+  return { line, source, name: "", type: "", value: details, hover };
+}
+
+// The hover without its code block fences.
+function hoverText(hover: string): string {
+  return hover
+    .replace(/^```\w*\s*\n?/, "")
+    .replace(/\n?```\s*$/, "")
+    .trim();
+}
+
+// The index of the ` = ` ending the type that starts at `start`, or -1.
+function typeEnd(details: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < details.length; i++) {
+    const char = details[i];
+    if (char === "[" || char === "(" || char === "{") depth++;
+    else if (char === "]" || char === ")" || char === "}") depth--;
+    else if (depth === 0 && details.startsWith(" = ", i)) return i;
+    else if (char === "\n") return -1;
+  }
+  return -1;
+}
+
+function toMarkdown(uri: Uri, results: WorksheetResult[]): string {
+  const escape = (text: string) =>
+    text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+  const rows = results.map(
+    (result) =>
+      `| ${result.line + 1} | \`${escape(result.source.trim())}\` | \`${escape(
+        result.type
+      )}\` | ${escape(result.value)} | \`${escape(hoverText(result.hover))}\` |`
+  );
+  return [
+    `# ${uri.path.substring(uri.path.lastIndexOf("/") + 1)}`,
+    "",
+    "| Line | Source | Type | Value | Hover |",
+    "| --- | --- | --- | --- | --- |",
+    ...rows,
+    "",
+  ].join("\n");
+}
+
+// Long values and hovers are collapsed to their first line.
+function codeCell(text: string): string {
+  const lines = text.split(/\r?\n/);
+  if (lines.length === 1 && text.length <= 120) {
+    return `<code>${escapeHtml(text)}</code>`;
+  }
+  const summary =
+    lines[0].length > 120 ? `${lines[0].substring(0, 117)}...` : lines[0];
+  return `<details><summary><code>${escapeHtml(
+    summary
+  )}</code></summary><pre>${escapeHtml(text)}</pre></details>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
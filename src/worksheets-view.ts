@@ -0,0 +1,418 @@
+import * as path from "path";
+import {
+  commands,
+  DiagnosticSeverity,
+  env,
+  Event,
+  EventEmitter,
+  ExtensionContext,
+  FileType,
+  languages,
+  QuickPickItem,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+  window,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
+import { ExecuteCommandRequest } from "vscode-languageclient";
+import { ServerCommands } from "metals-languageclient";
+import { buildTargetDirectory } from "./compilation-dashboard";
+import { fetchBuildTargets, parseNodeUri } from "./treeview";
+import { isWorksheet } from "./worksheet-output";
+import { WorkspaceClients } from "./workspace-clients";
+
+("use strict");
+
+export const worksheetsViewId = "metalsWorksheets";
+
+const evaluationsKey = "metals.worksheetEvaluations";
+const excludedDirectories =
+  "**/{.metals,.bloop,.ammonite,target,node_modules}/**";
+
+interface BuildTarget {
+  folder: WorkspaceFolder;
+  name: string;
+  directory: string;
+}
+
+interface Evaluation {
+  timestamp: number;
+  duration: number;
+}
+
+type WorksheetsNode =
+  | {
+      kind: "target";
+      folder: WorkspaceFolder;
+      target: BuildTarget | undefined;
+      worksheets: Uri[];
+    }
+  | { kind: "worksheet"; uri: Uri };
+
+interface TargetPick extends QuickPickItem {
+  folder: WorkspaceFolder;
+  directory: string;
+}
+
+/**
+ * The worksheets of the workspace grouped by build target, with the status
+ * and duration of their last evaluation.
+ *
+ * A worksheet belongs to the build target with the closest base directory,
+ * the build targets are those of the "Packages" view.
+ */
+export class WorksheetsView implements TreeDataProvider<WorksheetsNode> {
+  private didChange = new EventEmitter<undefined>();
+  onDidChangeTreeData: Event<undefined> = this.didChange.event;
+  private readonly targets: Map<string, BuildTarget[]> = new Map();
+  private readonly evaluating: Map<string, number> = new Map();
+  private evaluations: Record<string, Evaluation>;
+
+  constructor(
+    readonly context: ExtensionContext,
+    readonly clients: WorkspaceClients
+  ) {
+    this.evaluations = context.workspaceState.get(evaluationsKey, {});
+  }
+
+  // Reads the build targets of the folder from its Metals server.
+  refreshTargets(folder: WorkspaceFolder): Thenable<void> {
+    const client = this.clients.get(folder);
+    if (!client) return Promise.resolve();
+    return fetchBuildTargets(client).then(
+      (nodes) => {
+        this.targets.set(
+          folder.uri.toString(),
+          nodes
+            .filter((node) => node.nodeUri)
+            .map((node) => ({
+              folder,
+              name: node.label,
+              directory: buildTargetDirectory(
+                folder,
+                parseNodeUri(node.nodeUri ?? "")?.key ?? ""
+              ),
+            }))
+        );
+        this.didChange.fire(undefined);
+      },
+      () => undefined
+    );
+  }
+
+  remove(folder: WorkspaceFolder): void {
+    if (this.targets.delete(folder.uri.toString())) {
+      this.didChange.fire(undefined);
+    }
+  }
+
+  refresh(): void {
+    this.didChange.fire(undefined);
+  }
+
+  // Called when a worksheet is saved, Metals evaluates it.
+  evaluationStarted(uri: Uri): void {
+    this.evaluating.set(uri.toString(), Date.now());
+    this.didChange.fire(undefined);
+  }
+
+  // Called with the decorations published for a worksheet.
+  evaluated(uri: Uri): void {
+    const start = this.evaluating.get(uri.toString());
+    if (start === undefined) return;
+    this.evaluating.delete(uri.toString());
+    const now = Date.now();
+    this.evaluations[uri.toString()] = {
+      timestamp: now,
+      duration: now - start,
+    };
+    this.context.workspaceState.update(evaluationsKey, this.evaluations);
+    this.didChange.fire(undefined);
+  }
+
+  getTreeItem(node: WorksheetsNode): TreeItem {
+    if (node.kind === "target") {
+      const label = node.target?.name ?? "No build target";
+      return {
+        label:
+          (workspace.workspaceFolders ?? []).length > 1
+            ? `${label} (${node.folder.name})`
+            : label,
+        description: `${node.worksheets.length}`,
+        tooltip: node.target?.directory ?? node.folder.uri.fsPath,
+        iconPath: new ThemeIcon(node.target ? "package" : "folder"),
+        collapsibleState: TreeItemCollapsibleState.Expanded,
+        contextValue: node.target ? "worksheetTarget" : "worksheetFolder",
+      };
+    }
+    const key = node.uri.toString();
+    const evaluation = this.evaluations[key];
+    const relativePath = workspace.asRelativePath(node.uri, false);
+    const item: TreeItem = {
+      label: path.basename(node.uri.fsPath).replace(/\.worksheet\.sc$/, ""),
+      resourceUri: node.uri,
+      collapsibleState: TreeItemCollapsibleState.None,
+      contextValue: "worksheet",
+      command: {
+        title: "Open worksheet",
+        command: "vscode.open",
+        arguments: [node.uri],
+      },
+    };
+    if (this.evaluating.has(key)) {
+      item.iconPath = new ThemeIcon("sync~spin");
+      item.description = "evaluating";
+      item.tooltip = `${relativePath}\nEvaluating...`;
+    } else if (evaluation) {
+      const failed = hasErrors(node.uri);
+      item.iconPath = new ThemeIcon(failed ? "error" : "pass");
+      item.description = readableDuration(evaluation.duration);
+      item.tooltip = `${relativePath}\n${
+        failed ? "Failed" : "Evaluated"
+      } in ${readableDuration(evaluation.duration)} on ${new Date(
+        evaluation.timestamp
+      ).toLocaleString()}`;
+    } else {
+      item.iconPath = new ThemeIcon("circle-outline");
+      item.tooltip = `${relativePath}\nNot evaluated yet`;
+    }
+    return item;
+  }
+
+  async getChildren(node?: WorksheetsNode): Promise<WorksheetsNode[]> {
+    if (node) {
+      return node.kind === "target"
+        ? node.worksheets.map((uri) => ({ kind: "worksheet", uri }))
+        : [];
+    }
+    const worksheets = await workspace.findFiles(
+      "**/*.worksheet.sc",
+      excludedDirectories
+    );
+    const groups: Map<string, WorksheetsNode & { kind: "target" }> = new Map();
+    worksheets
+      .sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+      .forEach((uri) => {
+        const folder = workspace.getWorkspaceFolder(uri);
+        if (!folder) return;
+        const target = this.targetOf(folder, uri);
+        const key = `${folder.uri.toString()} ${target?.name ?? ""}`;
+        let group = groups.get(key);
+        if (!group) {
+          group = { kind: "target", folder, target, worksheets: [] };
+          groups.set(key, group);
+        }
+        group.worksheets.push(uri);
+      });
+    return Array.from(groups.values()).sort(
+      (a, b) =>
+        a.folder.index - b.folder.index ||
+        (a.target ? 0 : 1) - (b.target ? 0 : 1) ||
+        (a.target?.name ?? "").localeCompare(b.target?.name ?? "")
+    );
+  }
+
+  // Saving the worksheet makes Metals evaluate it again.
+  evaluate(node?: WorksheetsNode): Thenable<unknown> | undefined {
+    const uri = worksheetUri(node);
+    if (!uri) return undefined;
+    return window
+      .showTextDocument(uri, { preview: false })
+      .then(() => commands.executeCommand("workbench.action.files.save"));
+  }
+
+  copyOutput(node?: WorksheetsNode): Thenable<unknown> | undefined {
+    const uri = worksheetUri(node);
+    const client = uri && this.clients.forUri(uri);
+    if (!uri || !client) return undefined;
+    return client
+      .sendRequest(ExecuteCommandRequest.type, {
+        command: ServerCommands.CopyWorksheetOutput,
+        arguments: [uri.toString()],
+      })
+      .then((result) => {
+        if (result?.value) {
+          return env.clipboard
+            .writeText(result.value)
+            .then(() =>
+              window.showInformationMessage(
+                "Copied worksheet evaluation to clipboard."
+              )
+            );
+        }
+        window.showInformationMessage(
+          "This worksheet has not been evaluated yet, save it to evaluate it."
+        );
+      });
+  }
+
+  async duplicate(node?: WorksheetsNode): Promise<unknown> {
+    const uri = worksheetUri(node);
+    if (!uri) return undefined;
+    const directory = path.dirname(uri.fsPath);
+    const name = await promptName(
+      directory,
+      `${path.basename(uri.fsPath, ".worksheet.sc")}-copy`
+    );
+    if (!name) return undefined;
+    const copy = Uri.file(path.join(directory, `${name}.worksheet.sc`));
+    await workspace.fs.copy(uri, copy);
+    this.didChange.fire(undefined);
+    return window.showTextDocument(copy);
+  }
+
+  /**
+   * Creates a worksheet in the sources of a build target, the one of `node`
+   * or one picked by the user.
+   */
+  async create(node?: WorksheetsNode): Promise<unknown> {
+    const target =
+      node?.kind === "target"
+        ? {
+            folder: node.folder,
+            directory: node.target?.directory ?? node.folder.uri.fsPath,
+          }
+        : await this.pickTarget();
+    if (!target) return undefined;
+    const sources = path.join(target.directory, "src", "main", "scala");
+    const directory = (await isDirectory(sources)) ? sources : target.directory;
+    const name = await promptName(directory, "scratch");
+    if (!name) return undefined;
+    const client = this.clients.get(target.folder);
+    if (!client) return undefined;
+    return client.sendRequest(ExecuteCommandRequest.type, {
+      command: ServerCommands.NewScalaFile,
+      arguments: [Uri.file(directory).toString(), name, "worksheet"],
+    });
+  }
+
+  private pickTarget(): Thenable<TargetPick | undefined> {
+    const multiRoot = (workspace.workspaceFolders ?? []).length > 1;
+    const picks: TargetPick[] = [];
+    (workspace.workspaceFolders ?? []).forEach((folder) => {
+      (this.targets.get(folder.uri.toString()) ?? []).forEach((target) =>
+        picks.push({
+          label: target.name,
+          description: multiRoot ? folder.name : undefined,
+          detail: workspace.asRelativePath(target.directory, multiRoot),
+          folder,
+          directory: target.directory,
+        })
+      );
+      picks.push({
+        label: multiRoot ? folder.name : "Workspace root",
+        description: "No build target",
+        folder,
+        directory: folder.uri.fsPath,
+      });
+    });
+    return window.showQuickPick(picks, {
+      placeHolder: "Select the build target of the new worksheet",
+      matchOnDetail: true,
+    });
+  }
+
+  /**
+   * The build target with the closest base directory, test targets often
+   * share it with their main target so the shortest name wins.
+   */
+  private targetOf(folder: WorkspaceFolder, uri: Uri): BuildTarget | undefined {
+    const file = uri.fsPath;
+    return (this.targets.get(folder.uri.toString()) ?? [])
+      .filter((target) => file.startsWith(target.directory + path.sep))
+      .sort(
+        (a, b) =>
+          b.directory.length - a.directory.length ||
+          a.name.length - b.name.length
+      )[0];
+  }
+}
+
+export function startWorksheetsView(
+  context: ExtensionContext,
+  clients: WorkspaceClients
+): WorksheetsView {
+  const view = new WorksheetsView(context, clients);
+  const watcher = workspace.createFileSystemWatcher("**/*.worksheet.sc");
+  context.subscriptions.push(
+    window.registerTreeDataProvider(worksheetsViewId, view),
+    watcher,
+    watcher.onDidCreate(() => view.refresh()),
+    watcher.onDidDelete(() => view.refresh()),
+    workspace.onDidSaveTextDocument((document) => {
+      if (isWorksheet(document.uri)) view.evaluationStarted(document.uri);
+    }),
+    languages.onDidChangeDiagnostics(({ uris }) => {
+      if (uris.some(isWorksheet)) view.refresh();
+    }),
+    commands.registerCommand("metals.worksheets-refresh", () =>
+      Promise.all(
+        (workspace.workspaceFolders ?? []).map((folder) =>
+          view.refreshTargets(folder)
+        )
+      )
+    ),
+    commands.registerCommand("metals.worksheets-new", (node?) =>
+      view.create(node)
+    ),
+    commands.registerCommand("metals.worksheets-evaluate", (node?) =>
+      view.evaluate(node)
+    ),
+    commands.registerCommand("metals.worksheets-copy-output", (node?) =>
+      view.copyOutput(node)
+    ),
+    commands.registerCommand("metals.worksheets-duplicate", (node?) =>
+      view.duplicate(node)
+    )
+  );
+  return view;
+}
+
+// The worksheet of the node, or of the active editor.
+function worksheetUri(node?: WorksheetsNode): Uri | undefined {
+  if (node?.kind === "worksheet") return node.uri;
+  const uri = window.activeTextEditor?.document.uri;
+  return uri && isWorksheet(uri) ? uri : undefined;
+}
+
+function promptName(
+  directory: string,
+  value: string
+): Thenable<string | undefined> {
+  return window.showInputBox({
+    prompt: "Name of the worksheet",
+    value,
+    validateInput: (name) => {
+      if (!/^[\w.-]+$/.test(name)) {
+        return "Use letters, digits, '.', '-' and '_' only";
+      }
+      return workspace.fs
+        .stat(Uri.file(path.join(directory, `${name}.worksheet.sc`)))
+        .then(
+          () => `${name}.worksheet.sc already exists`,
+          () => undefined
+        );
+    },
+  });
+}
+
+function hasErrors(uri: Uri): boolean {
+  return languages
+    .getDiagnostics(uri)
+    .some((diagnostic) => diagnostic.severity === DiagnosticSeverity.Error);
+}
+
+function readableDuration(millis: number): string {
+  return millis < 1000 ? `${millis}ms` : `${(millis / 1000).toFixed(1)}s`;
+}
+
+function isDirectory(directory: string): Thenable<boolean> {
+  return workspace.fs.stat(Uri.file(directory)).then(
+    (stat) => (stat.type & FileType.Directory) !== 0,
+    () => false
+  );
+}
@@ -0,0 +1,97 @@
+import {
+  LanguageClient,
+  ExecuteCommandRequest,
+  StaticFeature,
+  DynamicFeature,
+  Disposable,
+} from "vscode-languageclient";
+import { Uri, window, workspace, WorkspaceFolder } from "vscode";
+
+("use strict");
+
+/**
+ * A language client that doesn't register the server commands as VS Code
+ * commands.
+ *
+ * vscode-languageclient registers every command listed in the server
+ * capabilities globally, which fails as soon as a second Metals server is
+ * started for another workspace folder. Server commands are instead sent to
+ * the client of the right folder with `ExecuteCommandRequest`.
+ */
+export class WorkspaceLanguageClient extends LanguageClient {
+  registerFeature(feature: StaticFeature | DynamicFeature<any>): void {
+    if (
+      "messages" in feature &&
+      feature.messages === ExecuteCommandRequest.type
+    )
+      return;
+    super.registerFeature(feature);
+  }
+}
+
+interface WorkspaceClient {
+  client: LanguageClient;
+  disposables: Disposable[];
+}
+
+/**
+ * The Metals clients of a workspace, one per workspace folder.
+ */
+export class WorkspaceClients {
+  private readonly clients: Map<string, WorkspaceClient> = new Map();
+
+  add(
+    folder: WorkspaceFolder,
+    client: LanguageClient,
+    disposables: Disposable[]
+  ): void {
+    this.clients.set(folder.uri.toString(), { client, disposables });
+  }
+
+  // Stops the client of a folder that was removed from the workspace.
+  remove(folder: WorkspaceFolder): Thenable<void> {
+    const key = folder.uri.toString();
+    const removed = this.clients.get(key);
+    if (!removed) return Promise.resolve();
+    this.clients.delete(key);
+    removed.disposables.forEach((disposable) => disposable.dispose());
+    return removed.client.stop();
+  }
+
+  get(folder: WorkspaceFolder): LanguageClient | undefined {
+    return this.clients.get(folder.uri.toString())?.client;
+  }
+
+  all(): LanguageClient[] {
+    return Array.from(this.clients.values()).map(({ client }) => client);
+  }
+
+  forUri(uri: Uri): LanguageClient | undefined {
+    const folder = workspace.getWorkspaceFolder(uri);
+    return folder && this.get(folder);
+  }
+
+  /**
+   * Picks the client for `resource`, or for the active editor when no
+   * resource is given. Asks the user to pick a workspace folder when neither
+   * belongs to a Metals client.
+   */
+  pick(resource?: Uri): Thenable<LanguageClient | undefined> {
+    const uri = resource ?? window.activeTextEditor?.document.uri;
+    const known = uri && this.forUri(uri);
+    if (known) return Promise.resolve(known);
+    if (this.clients.size <= 1) return Promise.resolve(this.all()[0]);
+    return window
+      .showWorkspaceFolderPick({
+        placeHolder: "Pick the workspace folder to run this command for",
+      })
+      .then((folder) => folder && this.get(folder));
+  }
+
+  // Same as `pick` but resolves once the picked client is ready.
+  select(resource?: Uri): Thenable<LanguageClient | undefined> {
+    return this.pick(resource).then((client) =>
+      client?.onReady().then(() => client)
+    );
+  }
+}